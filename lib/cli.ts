@@ -65,7 +65,10 @@ class CLI {
   }
 
   public async run(): Promise<void> {
-    await UpdaterResource.checkForUpdates();
+    if (!process.argv.includes('--offline')) {
+      await UpdaterResource.checkForUpdates();
+    }
+
     await this.registerCommands();
     this.program.parse(process.argv);
   }
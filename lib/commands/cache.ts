@@ -0,0 +1,114 @@
+import { Command } from 'commander';
+
+import { CacheResource } from '../utils/cache.js';
+import { Logger } from '../utils/logger.js';
+
+export class CacheCommand {
+  private static readonly DEFAULT_PRUNE_DAYS = 30;
+
+  public register(program: Command): void {
+    const cache = program
+      .command('cache')
+      .description('Inspect and clean the template cache')
+      .action(() => this.execute(() => this.list()));
+
+    cache
+      .command('list')
+      .description('List cached repositories, template snapshots and catalogs')
+      .action(() => this.execute(() => this.list()));
+
+    cache
+      .command('prune')
+      .description('Remove template snapshots that have not been used recently')
+      .option('--days <n>', 'Remove snapshots unused for more than this many days', String(CacheCommand.DEFAULT_PRUNE_DAYS))
+      .action((options: { days: string }) => this.execute(() => this.prune(options.days)));
+
+    cache
+      .command('clear')
+      .description('Remove everything from the cache')
+      .action(() => this.execute(() => this.clear()));
+  }
+
+  private async execute(handler: () => Promise<void>): Promise<void> {
+    try {
+      await handler();
+    } catch (error) {
+      Logger.error(error instanceof Error ? error.message : 'Failed to update the cache');
+      process.exit(1);
+    }
+  }
+
+  private async list(): Promise<void> {
+    const summary = await CacheResource.list();
+
+    Logger.info(`Cache: ${summary.path} (${this.formatSize(summary.size)})`);
+
+    if (summary.repositories.length === 0 && summary.catalogs.length === 0) {
+      Logger.item('The cache is empty', 'dim');
+      return;
+    }
+
+    for (const repository of summary.repositories) {
+      Logger.newLine();
+      Logger.listItem(`${repository.repository} (${this.formatSize(repository.size)})`);
+
+      if (repository.snapshots.length === 0) {
+        Logger.item('No template snapshots', 'dim');
+      }
+
+      for (const snapshot of repository.snapshots) {
+        Logger.item(
+          `${snapshot.commit.slice(0, 12)} ${snapshot.paths.join(', ')}, ${this.formatSize(snapshot.size)}, last used ${snapshot.lastUsed.toLocaleString()}`,
+          'dim'
+        );
+      }
+    }
+
+    if (summary.catalogs.length > 0) {
+      Logger.newLine();
+      Logger.info('Catalogs:');
+
+      for (const catalog of summary.catalogs) {
+        Logger.listItem(`${catalog.url}, fetched ${catalog.fetchedAt.toLocaleString()}`, 'dim');
+      }
+    }
+  }
+
+  private async prune(days: string): Promise<void> {
+    const maxAgeDays = Number(days);
+
+    if (!Number.isFinite(maxAgeDays) || maxAgeDays < 0) {
+      throw new Error(`Invalid --days '${days}', must be a non-negative number`);
+    }
+
+    const result = await CacheResource.prune(maxAgeDays);
+
+    if (result.removed.length === 0) {
+      Logger.info(`Nothing to prune, every snapshot was used in the last ${maxAgeDays} days`);
+      return;
+    }
+
+    result.removed.forEach(entry => Logger.listItem(entry, 'dim'));
+    Logger.success(`Pruned ${result.removed.length} entr${result.removed.length === 1 ? 'y' : 'ies'}, freed ${this.formatSize(result.freed)}`);
+  }
+
+  private async clear(): Promise<void> {
+    const { size } = await CacheResource.list();
+
+    await CacheResource.clearAll();
+    Logger.success(`Cache cleared, freed ${this.formatSize(size)}`);
+  }
+
+  private formatSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = bytes;
+    let unit = 0;
+
+    while (size >= 1024 && unit < units.length - 1) {
+      size /= 1024;
+      unit++;
+    }
+
+    return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { Command } from 'commander';
+
+import { ConfigResource, UserConfig } from '../utils/config.js';
+import { PackageResource } from '../utils/package.js';
+import { Logger } from '../utils/logger.js';
+
+type ConfigKey = Exclude<keyof UserConfig, 'registries'>;
+
+export class ConfigCommand {
+  private static readonly VALIDATORS: Record<ConfigKey, (value: string) => string | null> = {
+    packageManager: value => PackageResource.isPackageManager(value)
+      ? null
+      : `Must be one of: ${PackageResource.PACKAGE_MANAGERS.join(', ')}`
+  };
+
+  public register(program: Command): void {
+    const config = program
+      .command('config')
+      .description('View or change user configuration')
+      .action(() => this.execute(() => this.list()));
+
+    config
+      .command('get')
+      .description('Print a configuration value')
+      .argument('<key>', 'Configuration key')
+      .action((key: string) => this.execute(() => this.get(key)));
+
+    config
+      .command('set')
+      .description('Set a configuration value')
+      .argument('<key>', 'Configuration key')
+      .argument('<value>', 'Configuration value')
+      .action((key: string, value: string) => this.execute(() => this.set(key, value)));
+
+    config
+      .command('unset')
+      .description('Remove a configuration value')
+      .argument('<key>', 'Configuration key')
+      .action((key: string) => this.execute(() => this.unset(key)));
+  }
+
+  private execute(handler: () => void): void {
+    try {
+      handler();
+    } catch (error) {
+      Logger.error(error instanceof Error ? error.message : 'Failed to update configuration');
+      process.exit(1);
+    }
+  }
+
+  private list(): void {
+    const config = ConfigResource.load();
+
+    Logger.info(`Config file: ${ConfigResource.getConfigPath()}`);
+
+    for (const key of Object.keys(ConfigCommand.VALIDATORS) as ConfigKey[]) {
+      const value = config[key];
+      Logger.listItem(`${key}: ${value === undefined ? '(not set)' : value}`, value === undefined ? 'dim' : 'info');
+    }
+  }
+
+  private get(key: string): void {
+    const value = ConfigResource.get(this.validateKey(key));
+
+    if (value === undefined) {
+      Logger.warning(`${key} is not set`);
+      return;
+    }
+
+    Logger.plain(String(value));
+  }
+
+  private set(key: string, value: string): void {
+    const configKey = this.validateKey(key);
+    const error = ConfigCommand.VALIDATORS[configKey](value);
+
+    if (error) {
+      throw new Error(`Invalid value for ${key}: ${error}`);
+    }
+
+    ConfigResource.set(configKey, value);
+    Logger.success(`${key} set to ${value}`);
+  }
+
+  private unset(key: string): void {
+    ConfigResource.unset(this.validateKey(key));
+    Logger.success(`${key} removed`);
+  }
+
+  private validateKey(key: string): ConfigKey {
+    if (!Object.prototype.hasOwnProperty.call(ConfigCommand.VALIDATORS, key)) {
+      throw new Error(`Unknown config key '${key}', available keys: ${Object.keys(ConfigCommand.VALIDATORS).join(', ')}`);
+    }
+
+    return key as ConfigKey;
+  }
+}
\ No newline at end of file
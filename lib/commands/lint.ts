@@ -0,0 +1,290 @@
+import { Command } from 'commander';
+import { basename, dirname, sep } from 'path';
+
+import { LintResource, LintIssue } from '../utils/lint.js';
+import { ModifierResource, PluginRegistry } from '../utils/modifier.js';
+import { FileResource } from '../utils/file.js';
+import { PathResource } from '../utils/path.js';
+import { Logger } from '../utils/logger.js';
+
+interface LintTarget {
+  file: string;
+  kind: 'catalog' | 'module';
+  knownModules?: string[];
+  issues?: LintIssue[];
+  plugins?: PluginRegistry;
+  unloadedPlugins?: boolean;
+}
+
+interface LintOptions {
+  loadPlugins?: boolean;
+}
+
+interface CatalogTemplate {
+  url?: unknown;
+  modules?: Array<{ name?: unknown; path?: unknown }>;
+}
+
+export class LintCommand {
+  private static readonly CATALOG_FILE = 'templates.json';
+  private static readonly MODULES_DIR = '.modules';
+  private static readonly FILE_REFERENCES = ['source', 'contentFile', 'replacementFile'];
+  private static readonly PLUGIN_ISSUES = [/^Unknown action '/, /^Unknown condition type '/];
+
+  public register(program: Command): void {
+    program
+      .command('lint')
+      .description('Validate module instruction files or a template repository')
+      .argument('[path]', 'Module file, template folder or template repository (default: current directory)')
+      .option('--load-plugins', 'Run the plugins in .modules/plugins so their actions and conditions are validated')
+      .action((targetPath: string | undefined, options: LintOptions) => this.execute(targetPath || '.', options));
+  }
+
+  private async execute(targetPath: string, options: LintOptions): Promise<void> {
+    try {
+      const fullPath = PathResource.resolve(targetPath);
+
+      if (!FileResource.exists(fullPath)) {
+        throw new Error(`Path not found: ${targetPath}`);
+      }
+
+      const targets = this.collectTargets(fullPath);
+
+      if (targets.length === 0) {
+        Logger.warning('No module or templates files found');
+        return;
+      }
+
+      await this.resolvePlugins(targets, options.loadPlugins || false);
+
+      let errors = 0;
+      let warnings = 0;
+
+      for (const target of targets) {
+        const issues = [...(target.issues || []), ...this.lintFile(target)];
+        errors += issues.filter(issue => issue.severity === 'error').length;
+        warnings += issues.filter(issue => issue.severity === 'warning').length;
+        this.displayIssues(target.file, issues);
+      }
+
+      Logger.newLine();
+
+      if (errors > 0) {
+        Logger.error(`${errors} error(s), ${warnings} warning(s) in ${targets.length} file(s)`);
+        process.exit(1);
+      }
+
+      if (warnings > 0) {
+        Logger.warning(`${warnings} warning(s) in ${targets.length} file(s)`);
+        return;
+      }
+
+      Logger.success(`No problems found in ${targets.length} file(s)`);
+    } catch (error) {
+      Logger.error(error instanceof Error ? error.message : 'Failed to lint');
+      process.exit(1);
+    }
+  }
+
+  private async resolvePlugins(targets: LintTarget[], load: boolean): Promise<void> {
+    const registries = new Map<string, PluginRegistry>();
+
+    for (const target of targets) {
+      const dir = this.findModulesDir(target.file);
+
+      if (!dir || ModifierResource.listPlugins(dir).length === 0) continue;
+
+      if (!load) {
+        target.unloadedPlugins = true;
+        continue;
+      }
+
+      if (!registries.has(dir)) {
+        const registry = ModifierResource.createPluginRegistry();
+        registries.set(dir, registry);
+
+        try {
+          await ModifierResource.loadPlugins(dir, registry);
+        } catch (error) {
+          Logger.warning(error instanceof Error ? error.message : 'Failed to load plugins');
+        }
+      }
+
+      target.plugins = registries.get(dir);
+    }
+
+    if (targets.some(target => target.unloadedPlugins)) {
+      Logger.item('Plugins were not run, custom actions and conditions are reported as warnings (use --load-plugins to check them)', 'dim');
+    }
+  }
+
+  private downgradePluginIssues(issues: LintIssue[]): LintIssue[] {
+    return issues.map(issue => LintCommand.PLUGIN_ISSUES.some(pattern => pattern.test(issue.message))
+      ? { ...issue, severity: 'warning', message: `${issue.message}, unless a plugin registers it` }
+      : issue);
+  }
+
+  private findModulesDir(file: string): string | undefined {
+    const parts = file.split(sep);
+    const index = parts.lastIndexOf(LintCommand.MODULES_DIR);
+
+    return index === -1 ? undefined : parts.slice(0, index + 1).join(sep);
+  }
+
+  private collectTargets(fullPath: string): LintTarget[] {
+    if (FileResource.isDirectory(fullPath)) {
+      const catalogPath = PathResource.join(fullPath, LintCommand.CATALOG_FILE);
+
+      if (FileResource.exists(catalogPath)) {
+        return this.collectCatalogTargets(catalogPath);
+      }
+
+      const modulesDir = PathResource.join(fullPath, LintCommand.MODULES_DIR);
+      const searchDir = FileResource.isDirectory(modulesDir) ? modulesDir : fullPath;
+
+      return FileResource.listFiles(searchDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.createModuleTarget(file));
+    }
+
+    if (basename(fullPath) === LintCommand.CATALOG_FILE) {
+      return this.collectCatalogTargets(fullPath);
+    }
+
+    return [this.createModuleTarget(fullPath)];
+  }
+
+  private collectCatalogTargets(catalogPath: string): LintTarget[] {
+    const targets: LintTarget[] = [{ file: catalogPath, kind: 'catalog' }];
+    const catalog = this.readCatalog(catalogPath);
+
+    if (!catalog) return targets;
+
+    const root = dirname(catalogPath);
+
+    for (const template of catalog) {
+      if (typeof template.url !== 'string' || !Array.isArray(template.modules)) continue;
+
+      const knownModules = this.getModuleNames(template);
+
+      for (const module of template.modules) {
+        if (typeof module.path !== 'string') continue;
+
+        const file = PathResource.join(root, template.url, module.path);
+
+        if (!FileResource.exists(file)) {
+          targets[0].issues = [...(targets[0].issues || []), {
+            location: `${template.url} > ${module.name}`,
+            message: `Module file not found: ${PathResource.relative(root, file)}`,
+            severity: 'error'
+          }];
+          continue;
+        }
+
+        targets.push({ file, kind: 'module', knownModules });
+      }
+    }
+
+    return targets;
+  }
+
+  private createModuleTarget(file: string): LintTarget {
+    return { file, kind: 'module', knownModules: this.findKnownModules(file) };
+  }
+
+  private findKnownModules(file: string): string[] | undefined {
+    let dir = dirname(file);
+
+    while (true) {
+      const catalogPath = PathResource.join(dir, LintCommand.CATALOG_FILE);
+
+      if (FileResource.exists(catalogPath)) {
+        const template = this.readCatalog(catalogPath)?.find(entry =>
+          typeof entry.url === 'string' && file.startsWith(PathResource.join(dir, entry.url) + sep)
+        );
+        return template ? this.getModuleNames(template) : undefined;
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+
+  private readCatalog(catalogPath: string): CatalogTemplate[] | null {
+    try {
+      const data = FileResource.readJson<Record<string, unknown>>(catalogPath);
+      return Object.values(data)
+        .filter(Array.isArray)
+        .flat()
+        .filter((template): template is CatalogTemplate => typeof template === 'object' && template !== null);
+    } catch {
+      return null;
+    }
+  }
+
+  private getModuleNames(template: CatalogTemplate): string[] {
+    return (template.modules || [])
+      .map(module => module.name)
+      .filter((name): name is string => typeof name === 'string');
+  }
+
+  private lintFile(target: LintTarget): LintIssue[] {
+    let data: unknown;
+
+    try {
+      data = FileResource.readJson(target.file);
+    } catch (error) {
+      return [{
+        location: '',
+        message: `Invalid JSON: ${error instanceof Error ? error.message : 'unknown error'}`,
+        severity: 'error'
+      }];
+    }
+
+    return target.kind === 'catalog'
+      ? LintResource.lintCatalog(data)
+      : [...this.lintModule(data, target), ...this.checkReferencedFiles(data, dirname(target.file))];
+  }
+
+  private lintModule(data: unknown, target: LintTarget): LintIssue[] {
+    const issues = LintResource.lintModule(data, target.knownModules, target.plugins);
+    return target.unloadedPlugins ? this.downgradePluginIssues(issues) : issues;
+  }
+
+  private checkReferencedFiles(data: unknown, moduleDir: string): LintIssue[] {
+    const instructions = (data as { instructions?: unknown } | null)?.instructions;
+
+    if (!Array.isArray(instructions)) return [];
+
+    return instructions.flatMap((instruction: Record<string, unknown>, index) => LintCommand.FILE_REFERENCES
+      .map(field => ({ field, file: instruction?.[field] }))
+      .filter((entry): entry is { field: string; file: string } =>
+        typeof entry.file === 'string' && !entry.file.includes('{{')
+          && !FileResource.exists(PathResource.join(moduleDir, entry.file))
+      )
+      .map(({ field, file }) => ({
+        location: `instructions[${index}].${field}`,
+        message: `File not found: ${file}`,
+        severity: 'error' as const
+      }))
+    );
+  }
+
+  private displayIssues(file: string, issues: LintIssue[]): void {
+    const relativePath = PathResource.relative(process.cwd(), file) || file;
+
+    if (issues.length === 0) {
+      Logger.item(`✓ ${relativePath}`, 'success');
+      return;
+    }
+
+    const color = LintResource.hasErrors(issues) ? 'error' : 'warning';
+    Logger.item(`✗ ${relativePath}`, color);
+
+    issues.forEach(issue => {
+      const location = issue.location ? `${issue.location}: ` : '';
+      Logger.listItem(`${location}${issue.message}`, issue.severity);
+    });
+  }
+}
\ No newline at end of file
@@ -2,6 +2,7 @@ import { Command } from 'commander';
 import { Logger } from '../utils/logger.js';
 import { InstructionLogResource, InstructionLog } from '../utils/instructionLog.js';
 import { PromptResource } from '../utils/prompt.js';
+import { ModifierResource } from '../utils/modifier.js';
 
 export class LogsCommand {
   public register(program: Command): void {
@@ -90,6 +91,26 @@ export class LogsCommand {
     Logger.item('Target Path:', 'info');
     Logger.listItem(log.instruction.path);
 
+    if (log.instruction.exclude?.length) {
+      Logger.item('Exclude:', 'dim');
+      log.instruction.exclude.forEach(pattern => Logger.listItem(pattern));
+    }
+
+    if (log.instruction.contentFile) {
+      Logger.item('Content File:', 'dim');
+      Logger.listItem(log.instruction.contentFile);
+    }
+
+    if (log.instruction.replacementFile) {
+      Logger.item('Replacement File:', 'dim');
+      Logger.listItem(log.instruction.replacementFile);
+    }
+
+    if (log.instruction.onExists) {
+      Logger.item('On Exists:', 'dim');
+      Logger.listItem(log.instruction.onExists);
+    }
+
     if (log.instruction.content) {
       Logger.item('Content:', 'dim');
       Logger.listItem(log.instruction.content.substring(0, 100) + '...');
@@ -97,7 +118,24 @@ export class LogsCommand {
 
     if (log.instruction.pattern) {
       Logger.item('Pattern:', 'dim');
-      Logger.listItem(log.instruction.pattern);
+      Logger.listItem(log.instruction.patternType === 'REGEX'
+        ? `/${log.instruction.pattern}/${log.instruction.flags || ''}`
+        : log.instruction.pattern);
+    }
+
+    if (log.instruction.region) {
+      Logger.item('Region:', 'dim');
+      Logger.listItem(log.instruction.region);
+    }
+
+    if (log.instruction.jsonPath) {
+      Logger.item('JSON Path:', 'dim');
+      Logger.listItem(log.instruction.jsonPath);
+    }
+
+    if (log.instruction.value !== undefined) {
+      Logger.item('Value:', 'dim');
+      Logger.listItem(JSON.stringify(log.instruction.value));
     }
 
     if (log.instruction.replacement !== undefined) {
@@ -118,11 +156,7 @@ export class LogsCommand {
     if (log.conditions && log.conditions.length > 0) {
       Logger.newLine();
       Logger.item('Conditions:', 'info');
-      log.conditions.forEach((condition, idx) => {
-        const symbol = condition.passed ? '✓' : '✗';
-        const color = condition.passed ? 'success' : 'error';
-        Logger.item(`  ${symbol} Condition #${idx + 1}: ${condition.reason}`, color);
-      });
+      ModifierResource.logConditionResults(log.conditions);
     }
 
     if (log.error) {
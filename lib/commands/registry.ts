@@ -0,0 +1,63 @@
+import { Command } from 'commander';
+
+import { RegistryResource } from '../utils/registry.js';
+import { ConfigResource } from '../utils/config.js';
+import { Logger } from '../utils/logger.js';
+
+export class RegistryCommand {
+  public register(program: Command): void {
+    const registry = program
+      .command('registry')
+      .description('Manage the template registries used by zeck use')
+      .action(() => this.execute(() => this.list()));
+
+    registry
+      .command('list')
+      .description('List registries in precedence order')
+      .action(() => this.execute(() => this.list()));
+
+    registry
+      .command('add')
+      .description('Add a registry from a local directory, a git url or a raw.githubusercontent.com templates.json url')
+      .argument('<name>', 'Registry name')
+      .argument('<url>', 'Registry location')
+      .action((name: string, url: string) => this.execute(() => this.add(name, url)));
+
+    registry
+      .command('remove')
+      .description('Remove a registry')
+      .argument('<name>', 'Registry name')
+      .action((name: string) => this.execute(() => this.remove(name)));
+  }
+
+  private execute(handler: () => void): void {
+    try {
+      handler();
+    } catch (error) {
+      Logger.error(error instanceof Error ? error.message : 'Failed to update registries');
+      process.exit(1);
+    }
+  }
+
+  private list(): void {
+    Logger.info(`Registries (${ConfigResource.getConfigPath()}):`);
+
+    RegistryResource.list().forEach((registry, index) => {
+      const builtIn = registry.builtIn ? ' (built-in)' : '';
+      Logger.listItem(`${index + 1}. ${registry.name}${builtIn}: ${registry.location}`, registry.builtIn ? 'dim' : 'info');
+    });
+
+    Logger.newLine();
+    Logger.item('When two registries have a template with the same name in the same category, the one listed first is used', 'dim');
+  }
+
+  private add(name: string, url: string): void {
+    const registry = RegistryResource.add(name, url);
+    Logger.success(`Registry ${registry.name} added: ${registry.location}`);
+  }
+
+  private remove(name: string): void {
+    RegistryResource.remove(name);
+    Logger.success(`Registry ${name} removed`);
+  }
+}
\ No newline at end of file
@@ -4,64 +4,73 @@ import { promisify } from 'util';
 
 import { PromptResource } from '../utils/prompt.js';
 import { ProjectResource } from '../utils/project.js';
-import { ModifierResource, ModifierAction, ModifierInstruction, ModifierContext } from '../utils/modifier.js';
-import { FileResource } from '../utils/file.js';
+import { ModifierResource, InstructionsResult, PluginRegistry } from '../utils/modifier.js';
+import { Workspace, FileChange } from '../utils/workspace.js';
+import { DiffResource } from '../utils/diff.js';
 import { PathResource } from '../utils/path.js';
 import { EnvironmentResource } from '../utils/environment.js';
-import githubConfigData from '../config/github.js';
+import { PackageResource, PackageManagerDetection } from '../utils/package.js';
+import { CatalogResource, CatalogModule, CatalogTemplate, TemplatesCatalog, TemplateSource } from '../utils/catalog.js';
+import { PresetResource } from '../utils/preset.js';
+import { RegistryResource } from '../utils/registry.js';
+import { GeneratorResource, ModuleOutcome, PackageJsonOutcome, FileOverwrite } from '../utils/generator.js';
 import { Logger } from '../utils/logger.js';
-import axios from 'axios';
-import { rm } from 'fs/promises';
 
 const execAsync = promisify(exec);
 
-interface Module {
-  name: string;
-  description: string;
-  path: string;
-  excludes?: string[];
-  includes?: string[];
-  priority?: number;
+interface UseOptions {
+  verbose?: boolean;
+  dryRun?: boolean;
+  stripMarkers?: boolean;
+  install?: boolean;
+  category?: string;
+  template?: string;
+  modules?: string | string[] | boolean;
+  yes?: boolean;
+  open?: boolean;
+  source?: string;
+  ref?: string;
+  preset?: string;
+  savePreset?: string;
+  offline?: boolean;
+  variables?: Record<string, string>;
 }
 
-interface Template {
-  name: string;
-  description: string;
-  url: string;
-  modules?: Module[];
-}
-
-interface TemplatesData {
-  [category: string]: Template[];
-}
-
-interface ModuleInstructions {
-  instructions: Array<{
-    path: string;
-    action: string;
-    content?: string;
-    pattern?: string;
-    replacement?: string;
-    componentName?: string;
-    propName?: string;
-    propValue?: string;
-    condition?: any;
-  }>;
+interface ModuleProcessOptions {
+  projectName: string;
+  verbose: boolean;
+  stripMarkers?: boolean;
+  allowOutsideRoot?: boolean;
+  interactive: boolean;
+  variables?: Record<string, string>;
+  workspace?: Workspace;
 }
 
 export class UseCommand {
-  private static readonly GITHUB_REPO = 'https://github.com/odutradev/zeck-templates.git';
-
   public register(program: Command): void {
     program
       .command('use')
       .description('Select and use a project template')
       .argument('[path]', 'Project path (default: template name, "." for current directory)')
       .option('--verbose', 'Show detailed information about each instruction and condition')
-      .action((targetPath?: string, options?: { verbose?: boolean }) => this.execute(targetPath, options?.verbose || false));
+      .option('--dry-run', 'Preview module changes as unified diffs without writing to disk')
+      .option('--strip-markers', 'Remove leftover zeck:region markers after modules are installed')
+      .option('--install', 'Install dependencies with the detected package manager (npm, pnpm, yarn or bun)')
+      .option('--category <name>', 'Template category to use instead of prompting')
+      .option('--template <name>', 'Template to use instead of prompting')
+      .option('--modules <names>', 'Comma-separated list of modules to install instead of prompting')
+      .option('--no-modules', 'Install the template without any modules')
+      .option('-y, --yes', 'Never prompt, fail when a required choice is missing')
+      .option('--no-open', 'Do not offer to open the project in VSCode')
+      .option('--source <location>', 'Read templates from a local directory, a git url or a raw.githubusercontent.com templates.json url')
+      .option('--ref <ref>', 'Git tag, branch or commit to use for the template, overrides the ref pinned in the catalog')
+      .option('--preset <file>', 'Read category, template, modules, destination and variables from a preset file')
+      .option('--save-preset <file>', 'Save the choices made to a preset file')
+      .option('--offline', 'Use only the cached catalog and templates, without network access')
+      .action((targetPath?: string, options?: UseOptions) => this.execute(targetPath, options || {}));
   }
 
-  private async execute(targetPath: string | undefined, verbose: boolean): Promise<void> {
+  private async execute(targetPath: string | undefined, cliOptions: UseOptions): Promise<void> {
     try {
       Logger.step('Validating environment...');
       const validation = await EnvironmentResource.validate();
@@ -78,35 +87,128 @@ export class UseCommand {
       Logger.stepSuccess('Environment validated');
       Logger.newLine();
 
-      const response = await axios.get(githubConfigData.templateURL);
-      const data = response.data;
+      let options = cliOptions;
+      const preset = options.preset ? PresetResource.load(options.preset) : undefined;
+      const ref = options.ref ?? preset?.ref;
+      const { catalog: data, source } = await this.loadCatalog(options.source ?? preset?.source, ref, options.offline || false);
+
+      if (preset && options.preset) {
+        PresetResource.validate(data, preset, options.preset);
 
-      if (!data || typeof data !== 'object' || Array.isArray(data)) {
-        throw new Error('Invalid templates data format');
+        options = {
+          ...options,
+          category: options.category ?? preset.category,
+          template: options.template ?? preset.template,
+          modules: options.modules ?? preset.modules ?? false,
+          variables: preset.variables
+        };
+        targetPath = targetPath ?? preset.destination;
+
+        Logger.info(`Using preset ${options.preset}`);
       }
 
-      const category = await this.selectCategory(data);
-      const templates = data[category];
+      const category = await this.selectCategory(data, options);
+      const templates = CatalogResource.findCategory(data, category);
       
-      if (!templates || templates.length === 0) {
+      if (templates.length === 0) {
         Logger.error('No templates found in this category');
         return;
       }
 
-      const template = await this.selectTemplate(templates);
-      const selectedModules = await this.handleModuleSelection(template);
+      const template = await this.selectTemplate(templates, options);
+      const chosenModules = await this.handleModuleSelection(template, options);
+
+      if (options.savePreset) {
+        PresetResource.save(options.savePreset, {
+          category,
+          template: template.name,
+          modules: chosenModules.map(module => module.name),
+          destination: targetPath,
+          source: options.source ?? preset?.source,
+          ref,
+          variables: options.variables
+        });
+        Logger.info(`Preset saved to ${options.savePreset}`);
+      }
+
+      const selectedModules = this.resolveSelection(template, chosenModules);
 
       Logger.newLine();
-      await this.downloadAndSetup(template, targetPath, selectedModules, verbose);
+
+      if (options.dryRun) {
+        await this.previewSetup(this.getTemplateSource(template, source, ref), template, targetPath, selectedModules, options);
+        return;
+      }
+
+      await this.downloadAndSetup(this.getTemplateSource(template, source, ref), template, targetPath, selectedModules, options);
     } catch (error) {
       Logger.error(error instanceof Error ? error.message : 'Failed to process template');
       process.exit(1);
     }
   }
 
-  private async selectCategory(data: TemplatesData): Promise<string> {
-    const categories = Object.keys(data);
+  private isInteractive(options: UseOptions): boolean {
+    return !options.yes && PromptResource.isInteractive();
+  }
+
+  private requirePrompt(options: UseOptions, flag: string, values: string[]): void {
+    if (this.isInteractive(options)) return;
+
+    const reason = options.yes ? '--yes was given' : 'no terminal is available to prompt';
+    throw new Error(`Missing ${flag} (${reason}), available: ${values.length > 0 ? values.join(', ') : '(none)'}`);
+  }
+
+  private async loadCatalog(
+    location: string | undefined,
+    ref: string | undefined,
+    offline: boolean
+  ): Promise<{ catalog: TemplatesCatalog; source: TemplateSource }> {
+    if (location) {
+      const resolved = CatalogResource.resolveSource(location);
+      const source = { ...resolved, ref: ref || resolved.ref };
+      Logger.info(`Using templates from ${source.local ? source.repository : location}`);
+      return { catalog: await CatalogResource.load(source, offline), source };
+    }
+
+    if (!RegistryResource.hasCustomRegistries()) {
+      return { catalog: await CatalogResource.load(CatalogResource.DEFAULT_SOURCE, offline), source: CatalogResource.DEFAULT_SOURCE };
+    }
+
+    const { catalog, shadowed, failures } = await RegistryResource.load(offline);
+
+    failures.forEach(failure => Logger.warning(`Registry ${failure.registry} skipped: ${failure.error}`));
+    shadowed.forEach(entry => Logger.item(
+      `${entry.category}/${entry.template} from ${entry.source} is shadowed by ${entry.shadowedBy}`,
+      'dim'
+    ));
+
+    return { catalog, source: CatalogResource.DEFAULT_SOURCE };
+  }
+
+  private getTemplateSource(template: CatalogTemplate, source: TemplateSource, ref: string | undefined): TemplateSource {
+    const base = template.source || source;
+    return { ...base, ref: ref || template.ref || base.ref };
+  }
+
+  private isCopied(source: TemplateSource): boolean {
+    return Boolean(source.local && !source.ref);
+  }
+
+  private displayCommit(source: TemplateSource, commit: string | undefined): void {
+    if (commit) {
+      Logger.item(`Commit: ${commit}${source.ref ? ` (${source.ref})` : ''}`, 'dim');
+    }
+  }
+
+  private async selectCategory(data: TemplatesCatalog, options: UseOptions): Promise<string> {
+    const entries = CatalogResource.getCategories(data);
+    const categories = entries.map(entry => entry.category);
     
+    if (options.category) {
+      CatalogResource.findCategory(data, options.category);
+      return options.category;
+    }
+
     if (categories.length === 0) {
       throw new Error('No categories found');
     }
@@ -115,9 +217,11 @@ export class UseCommand {
       return categories[0];
     }
 
-    const choices = categories.map(cat => ({
-      name: cat,
-      value: cat
+    this.requirePrompt(options, '--category', categories);
+
+    const choices = entries.map(({ category, sources }) => ({
+      name: sources.length > 0 ? `${category} (${sources.join(', ')})` : category,
+      value: category
     }));
 
     return await PromptResource.ask({
@@ -127,9 +231,19 @@ export class UseCommand {
     });
   }
 
-  private async selectTemplate(templates: Template[]): Promise<Template> {
+  private async selectTemplate(templates: CatalogTemplate[], options: UseOptions): Promise<CatalogTemplate> {
+    if (options.template) {
+      return CatalogResource.findTemplate(templates, options.template);
+    }
+
+    if (templates.length === 1 && !this.isInteractive(options)) {
+      return templates[0];
+    }
+
+    this.requirePrompt(options, '--template', templates.map(t => t.name));
+
     const choices = templates.map(t => ({
-      name: `${t.name} - ${t.description}`,
+      name: `${t.name} - ${t.description}${t.source?.name ? ` [${t.source.name}]` : ''}`,
       value: t
     }));
 
@@ -140,7 +254,7 @@ export class UseCommand {
     });
   }
 
-  private async selectModules(modules: Module[]): Promise<Module[]> {
+  private async selectModules(modules: CatalogModule[]): Promise<CatalogModule[]> {
     const choices = modules.map(m => ({
       name: `${m.name} - ${m.description}`,
       value: m
@@ -153,86 +267,49 @@ export class UseCommand {
     });
   }
 
-  private addIncludedModules(selectedModules: Module[], allModules: Module[]): Module[] {
-    const moduleMap = new Map(allModules.map(m => [m.name, m]));
-    const finalModules = new Set<Module>(selectedModules);
-    const addedModuleNames = new Set<string>();
-
-    const addIncludes = (module: Module) => {
-      if (module.includes) {
-        for (const includeName of module.includes) {
-          const includedModule = moduleMap.get(includeName);
-          if (includedModule && !finalModules.has(includedModule)) {
-            finalModules.add(includedModule);
-            addedModuleNames.add(includeName);
-            addIncludes(includedModule);
-          }
-        }
-      }
-    };
-
-    selectedModules.forEach(module => addIncludes(module));
-
-    if (addedModuleNames.size > 0) {
-      Logger.item('Auto-included dependencies:', 'dim');
-      addedModuleNames.forEach(name => Logger.listItem(name, 'dim'));
+  private async handleModuleSelection(template: CatalogTemplate, options: UseOptions): Promise<CatalogModule[]> {
+    if (options.modules === false) {
+      return [];
     }
 
-    return Array.from(finalModules);
-  }
-
-  private filterExcludedModules(selectedModules: Module[]): Module[] {
-    const moduleNames = selectedModules.map(m => m.name);
-    const excludedModules = new Set<string>();
-
-    selectedModules.forEach(module => {
-      if (module.excludes) {
-        module.excludes.forEach(excludeName => {
-          if (moduleNames.includes(excludeName)) {
-            excludedModules.add(excludeName);
-          }
-        });
-      }
-    });
-
-    if (excludedModules.size > 0) {
-      Logger.item('Excluded due to conflicts:', 'warning');
-      excludedModules.forEach(name => Logger.listItem(name, 'warning'));
+    if (Array.isArray(options.modules)) {
+      return CatalogResource.findModules(template, options.modules);
     }
 
-    return selectedModules.filter(m => !excludedModules.has(m.name));
-  }
-
-  private sortModulesByPriority(modules: Module[]): Module[] {
-    return modules.sort((a, b) => {
-      const priorityA = a.priority ?? 0;
-      const priorityB = b.priority ?? 0;
-      return priorityB - priorityA;
-    });
-  }
+    if (typeof options.modules === 'string') {
+      return CatalogResource.findModules(template, options.modules.split(',').map(name => name.trim()).filter(Boolean));
+    }
 
-  private async handleModuleSelection(template: Template): Promise<Module[]> {
-    if (!template.modules || template.modules.length === 0) {
+    if (!template.modules || template.modules.length === 0 || !this.isInteractive(options)) {
       return [];
     }
 
-    const selectedModules = await this.selectModules(template.modules);
+    return this.selectModules(template.modules);
+  }
 
+  private resolveSelection(template: CatalogTemplate, selectedModules: CatalogModule[]): CatalogModule[] {
     if (selectedModules.length === 0) {
       return [];
     }
 
     Logger.newLine();
-    const modulesWithIncludes = this.addIncludedModules(selectedModules, template.modules);
-    const filteredModules = this.filterExcludedModules(modulesWithIncludes);
+    const { modules: sortedModules, included, excluded } = CatalogResource.resolveModules(template, selectedModules);
+
+    if (included.length > 0) {
+      Logger.item('Auto-included dependencies:', 'dim');
+      included.forEach(name => Logger.listItem(name, 'dim'));
+    }
 
-    if (filteredModules.length === 0) {
+    if (excluded.length > 0) {
+      Logger.item('Excluded due to conflicts:', 'warning');
+      excluded.forEach(name => Logger.listItem(name, 'warning'));
+    }
+
+    if (sortedModules.length === 0) {
       Logger.error('All modules were excluded due to conflicts');
       return [];
     }
 
-    const sortedModules = this.sortModulesByPriority(filteredModules);
-
     Logger.item('Installation order:', 'info');
     sortedModules.forEach((module, index) => {
       const priority = module.priority ? ` (P${module.priority})` : '';
@@ -243,29 +320,47 @@ export class UseCommand {
   }
 
   private async downloadAndSetup(
-    template: Template,
+    source: TemplateSource,
+    template: CatalogTemplate,
     targetPath: string | undefined,
-    selectedModules: Module[],
-    verbose: boolean
+    selectedModules: CatalogModule[],
+    options: UseOptions
   ): Promise<void> {
     const destination = ProjectResource.resolveDestination(targetPath, template.name);
 
     await ProjectResource.validateDestination(destination);
 
-    Logger.step('Downloading template...');
-    await ProjectResource.createFromTemplate(
-      UseCommand.GITHUB_REPO,
+    Logger.step(this.isCopied(source) ? 'Copying template...' : 'Downloading template...');
+    const commit = await ProjectResource.createFromTemplate(
+      source,
       template.url,
-      destination
+      destination,
+      template.allowOutsideRoot,
+      options.offline
     );
-    Logger.stepSuccess('Template downloaded');
+    Logger.stepSuccess(this.isCopied(source) ? 'Template copied' : 'Template downloaded');
+    this.displayCommit(source, commit);
 
     if (selectedModules.length > 0) {
       Logger.step(`Installing ${selectedModules.length} module(s)...`);
-      await this.processModules(destination, selectedModules, verbose);
+      await this.processModules(destination, selectedModules, {
+        projectName: this.getProjectName(destination),
+        verbose: options.verbose || false,
+        stripMarkers: options.stripMarkers,
+        allowOutsideRoot: template.allowOutsideRoot,
+        interactive: this.isInteractive(options),
+        variables: options.variables
+      });
+      await ProjectResource.removeModulesFolder(destination);
       Logger.stepSuccess('Modules installed');
     }
 
+    const packageManager = PackageResource.detectPackageManager(destination);
+
+    if (options.install) {
+      await this.installDependencies(destination, packageManager);
+    }
+
     Logger.newLine();
     Logger.success(`Project created at: ${destination}`);
     Logger.newLine();
@@ -273,9 +368,71 @@ export class UseCommand {
     if (targetPath !== '.') {
       Logger.plain(`  cd ${destination.split('/').pop()}`);
     }
-    Logger.plain('  npm install');
+    if (!options.install) {
+      Logger.plain(`  ${packageManager.manager} install`);
+    }
 
-    await this.promptOpenVSCode(destination);
+    if (options.open !== false && this.isInteractive(options)) {
+      await this.promptOpenVSCode(destination);
+    }
+  }
+
+  private async previewSetup(
+    source: TemplateSource,
+    template: CatalogTemplate,
+    targetPath: string | undefined,
+    selectedModules: CatalogModule[],
+    options: UseOptions
+  ): Promise<void> {
+    const destination = ProjectResource.resolveDestination(targetPath, template.name);
+
+    Logger.step(this.isCopied(source) ? 'Reading template...' : 'Downloading template...');
+    await ProjectResource.withTemplateSource(source, template.url, async (sourcePath, commit) => {
+      Logger.stepSuccess(this.isCopied(source) ? 'Template read' : 'Template downloaded');
+      this.displayCommit(source, commit);
+      Logger.info('Dry run: no files will be written');
+
+      if (selectedModules.length === 0) {
+        Logger.plain('  No modules selected, the template would be copied as-is');
+        return;
+      }
+
+      await this.processModules(sourcePath, selectedModules, {
+        projectName: this.getProjectName(destination),
+        verbose: options.verbose || false,
+        stripMarkers: options.stripMarkers,
+        allowOutsideRoot: template.allowOutsideRoot,
+        interactive: false,
+        variables: options.variables,
+        workspace: new Workspace(true)
+      });
+
+      if (options.install) {
+        const { manager, reason } = PackageResource.detectPackageManager(sourcePath);
+        Logger.newLine();
+        Logger.item(`Would run: ${manager} install (${reason})`, 'info');
+      }
+    }, options.offline);
+
+    Logger.newLine();
+    Logger.success(`Dry run complete, nothing was written to ${destination}`);
+  }
+
+  private async installDependencies(destination: string, detection: PackageManagerDetection): Promise<void> {
+    const { manager, reason } = detection;
+
+    Logger.step(`Installing dependencies with ${manager} (${reason})...`);
+
+    if (!(await GeneratorResource.installDependencies(destination, detection))) {
+      Logger.warning('No package.json found, skipping dependency install');
+      return;
+    }
+
+    Logger.stepSuccess('Dependencies installed');
+  }
+
+  private getProjectName(destination: string): string {
+    return destination.split('/').pop() || 'unknown';
   }
 
   private async promptOpenVSCode(projectPath: string): Promise<void> {
@@ -294,75 +451,223 @@ export class UseCommand {
     }
   }
 
-  private async processModules(destination: string, modules: Module[], verbose: boolean): Promise<void> {
-    const moduleNames = modules.map(m => m.name);
-    const projectName = destination.split('/').pop() || 'unknown';
-    
-    for (const module of modules) {
-      try {
+  private async processModules(destination: string, modules: CatalogModule[], options: ModuleProcessOptions): Promise<void> {
+    const { projectName, verbose, stripMarkers, allowOutsideRoot, interactive, variables } = options;
+    const workspace = options.workspace || new Workspace();
+    const dryRun = workspace.isInMemory();
+
+    const plugins = await this.loadPlugins(destination, verbose);
+
+    const result = await GeneratorResource.applyModules({
+      projectRoot: destination,
+      modules,
+      projectName,
+      variables,
+      verbose,
+      stripMarkers,
+      allowOutsideRoot,
+      interactive,
+      plugins,
+      workspace,
+      onModuleStart: module => {
         if (verbose) {
           Logger.newLine();
           Logger.info(`Processing module: ${module.name}`);
           Logger.item(`Config path: ${module.path}`, 'dim');
         }
+      },
+      onModule: outcome => this.displayModuleOutcome(outcome, destination, dryRun, verbose)
+    });
 
-        const modulePath = PathResource.join(destination, module.path);
-        
-        if (!FileResource.exists(modulePath)) {
-          Logger.warning(`  ✗ ${module.name} (config not found)`);
-          continue;
-        }
+    const rolledBack = result.modules.filter(outcome => outcome.status === 'rolled-back');
 
-        const moduleConfig = FileResource.readJson<ModuleInstructions>(modulePath);
-        
-        const instructions: ModifierInstruction[] = moduleConfig.instructions.map(inst => ({
-          path: PathResource.join(destination, inst.path),
-          action: inst.action as ModifierAction,
-          content: inst.content,
-          pattern: inst.pattern,
-          replacement: inst.replacement,
-          componentName: inst.componentName,
-          propName: inst.propName,
-          propValue: inst.propValue,
-          condition: inst.condition
-        }));
-
-        const context: ModifierContext = {
-          selectedModules: moduleNames,
-          projectRoot: destination,
-          projectName,
-          moduleName: module.name,
-          verbose
-        };
+    if (rolledBack.length > 0) {
+      Logger.newLine();
+      Logger.warning(`${rolledBack.length} module(s) ${dryRun ? 'would be' : 'were'} rolled back:`);
+      rolledBack.forEach(outcome => Logger.listItem(`${outcome.name}: ${this.describeFailure(outcome.result, destination)}`, 'warning'));
+    }
 
-        const result = await ModifierResource.processInstructions(instructions, context);
-        
-        if (!verbose) {
-          if (result.skipped > 0) {
-            Logger.plain(`  ✓ ${module.name} (${result.executed} applied, ${result.skipped} skipped)`);
-          } else {
-            Logger.plain(`  ✓ ${module.name}`);
-          }
-        } else {
-          Logger.newLine();
-          Logger.success(`Module ${module.name} completed: ${result.executed} applied, ${result.skipped} skipped`);
-        }
-      } catch (error) {
-        Logger.plain(`  ✗ ${module.name} (${error instanceof Error ? error.message : 'error'})`);
+    this.displayOverwrites(result.overwrites, destination, dryRun);
+
+    if (result.packageJson) {
+      this.displayPackageJson(result.packageJson, destination, dryRun);
+    }
+
+    this.displayStrippedMarkers(result.strippedMarkers, destination, dryRun);
+  }
+
+  private displayModuleOutcome(outcome: ModuleOutcome, destination: string, dryRun: boolean, verbose: boolean): void {
+    const { name, result } = outcome;
+
+    if (outcome.status === 'missing') {
+      Logger.warning(`  ✗ ${name} (config not found)`);
+      return;
+    }
+
+    if (outcome.status === 'invalid') {
+      const [first, ...rest] = outcome.issues || [];
+      const more = rest.length > 0 ? ` (+${rest.length} more)` : '';
+      Logger.plain(`  ✗ ${name} (invalid module file: ${first.location}: ${first.message}${more})`);
+      return;
+    }
+
+    if (!result) {
+      Logger.plain(`  ✗ ${name} (${outcome.error || 'error'})`);
+      return;
+    }
+
+    if (dryRun) {
+      this.displayModulePlan(name, result, destination);
+    } else if (result.rolledBack) {
+      Logger.plain(`  ✗ ${name} (rolled back: ${this.describeFailure(result, destination)})`);
+    } else if (!verbose) {
+      if (result.skipped > 0 || result.alreadyApplied > 0 || result.noMatch > 0) {
+        Logger.plain(`  ✓ ${name} (${this.describeCounts(result)})`);
+      } else {
+        Logger.plain(`  ✓ ${name}`);
       }
+    } else {
+      Logger.newLine();
+      Logger.success(`Module ${name} completed: ${this.describeCounts(result)}`);
     }
+  }
 
-    await this.cleanupModulesFolder(destination);
+  private displayOverwrites(overwrites: FileOverwrite[], destination: string, dryRun: boolean): void {
+    if (overwrites.length === 0) return;
+
+    Logger.newLine();
+    Logger.warning(`${overwrites.length} existing file(s) ${dryRun ? 'would be' : 'were'} overwritten:`);
+    overwrites.forEach(overwrite => {
+      const owner = overwrite.owner ? `module ${overwrite.owner}` : 'template';
+      Logger.listItem(`${PathResource.relative(destination, overwrite.path)} by ${overwrite.module} (replaced ${owner} version)`, 'warning');
+    });
   }
 
-  private async cleanupModulesFolder(destination: string): Promise<void> {
-    try {
-      const modulesPath = PathResource.join(destination, '.modules');
-      
-      if (FileResource.exists(modulesPath)) {
-        await rm(modulesPath, { recursive: true, force: true });
+  private displayPackageJson(outcome: PackageJsonOutcome, destination: string, dryRun: boolean): void {
+    if (outcome.error || !outcome.merge) {
+      Logger.warning(`Failed to update package.json (${outcome.error}), dependencies from ${outcome.sources.join(', ')} were not added`);
+      return;
+    }
+
+    const { added, conflicts } = outcome.merge;
+    const entries = added.length === 1 ? 'entry' : 'entries';
+
+    Logger.newLine();
+    Logger.item(`package.json: ${added.length} ${entries} ${dryRun ? 'would be added' : 'added'}`, 'info');
+
+    if (dryRun) {
+      outcome.changes.forEach(change => Logger.diff(DiffResource.unified(change, destination)));
+    }
+
+    if (conflicts.length > 0) {
+      Logger.warning(`${conflicts.length} package.json conflict(s), existing values were kept:`);
+      conflicts.forEach(conflict => {
+        const owner = conflict.owner ? `module ${conflict.owner}` : 'template';
+        Logger.listItem(
+          `${conflict.section}.${conflict.name}: ${conflict.current} (${owner}) kept, ${conflict.source} requested ${conflict.requested}`,
+          'warning'
+        );
+      });
+    }
+  }
+
+  private async loadPlugins(destination: string, verbose: boolean): Promise<PluginRegistry> {
+    const { plugins, registry, error } = await GeneratorResource.loadPlugins(destination);
+
+    if (error) {
+      Logger.warning(error);
+    }
+
+    if (plugins.length > 0 && verbose) {
+      Logger.item('Loaded plugins:', 'dim');
+      plugins.forEach(plugin => Logger.listItem(PathResource.relative(destination, plugin), 'dim'));
+    }
+
+    return registry;
+  }
+
+  private displayStrippedMarkers(changes: FileChange[], destination: string, dryRun: boolean): void {
+    if (changes.length === 0) return;
+
+    Logger.newLine();
+    Logger.item(`Region markers ${dryRun ? 'would be' : 'were'} removed from ${changes.length} file(s)`, 'dim');
+
+    if (dryRun) {
+      changes.forEach(change => Logger.diff(DiffResource.unified(change, destination)));
+    }
+  }
+
+  private describeCounts(result: InstructionsResult): string {
+    const counts = [`${result.executed} applied`];
+
+    if (result.alreadyApplied > 0) {
+      counts.push(`${result.alreadyApplied} already applied`);
+    }
+
+    counts.push(`${result.skipped} skipped`);
+
+    if (result.noMatch > 0) {
+      counts.push(`${result.noMatch} without matching files`);
+    }
+
+    return counts.join(', ');
+  }
+
+  private describeFailure(result: InstructionsResult | undefined, root: string): string {
+    const failure = result?.failure;
+
+    if (!failure) return 'unknown error';
+
+    const target = PathResource.relative(root, failure.path);
+    return `instruction #${failure.index + 1} ${failure.action} ${target} failed: ${failure.error}`;
+  }
+
+  private displayModulePlan(name: string, outcome: InstructionsResult, root: string): void {
+    const results = outcome.results;
+
+    Logger.newLine();
+    Logger.info(`Module: ${name}`);
+
+    if (results.length === 0) {
+      Logger.item('No instructions', 'dim');
+      return;
+    }
+
+    for (const result of results) {
+      const target = PathResource.relative(root, result.path);
+      const conditions = result.conditionsPassed === undefined
+        ? 'no conditions'
+        : result.conditionsPassed ? 'conditions passed' : 'conditions failed';
+      const color = result.status === 'executed'
+        ? 'success'
+        : result.status === 'failed' ? 'error' : result.status === 'already-applied' ? 'dim' : 'warning';
+
+      if (result.status === 'no-match') {
+        Logger.item(`#${result.index + 1} ${result.action} ${target} (no matching files)`, color);
+        continue;
       }
-    } catch (error) {
+
+      Logger.item(`#${result.index + 1} ${result.action} ${target} (${conditions})`, color);
+
+      ModifierResource.logConditionResults(result.conditions || [], '', 2);
+
+      if (result.status === 'failed') {
+        Logger.listItem(`Would fail: ${result.error}`, 'error');
+      } else if (result.status === 'already-applied') {
+        Logger.listItem('Already applied', 'dim');
+      } else if (result.reason) {
+        Logger.listItem(`Skipped: ${result.reason}`, 'warning');
+      } else if (result.overwritten) {
+        Logger.listItem('Overwrites an existing file', 'warning');
+      } else if (result.status === 'executed' && result.changes.length === 0) {
+        Logger.listItem('No changes', 'dim');
+      }
+
+      result.changes.forEach(change => Logger.diff(DiffResource.unified(change, root)));
+    }
+
+    if (outcome.rolledBack) {
+      Logger.item('Module would be rolled back, none of the changes above would be kept', 'error');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { CatalogResource, CatalogTemplate, TemplateCategory, TemplateSource, ModuleResolution } from './utils/catalog.js';
+import { GeneratorResource, CreateProjectOptions, CreateProjectResult } from './utils/generator.js';
+import { RegistryResource } from './utils/registry.js';
+
+export async function listTemplates(source?: TemplateSource, offline: boolean = false): Promise<TemplateCategory[]> {
+  const catalog = source ? await CatalogResource.load(source, offline) : (await RegistryResource.load(offline)).catalog;
+  return CatalogResource.getCategories(catalog);
+}
+
+export function resolveModules(template: CatalogTemplate, modules: string[]): ModuleResolution {
+  return CatalogResource.resolveModules(template, CatalogResource.findModules(template, modules));
+}
+
+export function createProject(options: CreateProjectOptions): Promise<CreateProjectResult> {
+  return GeneratorResource.createProject(options);
+}
+
+export { CatalogResource } from './utils/catalog.js';
+export { GeneratorResource } from './utils/generator.js';
+export { PresetResource } from './utils/preset.js';
+export { RegistryResource } from './utils/registry.js';
+export { CacheResource } from './utils/cache.js';
+
+export type {
+  CatalogModule,
+  CatalogTemplate,
+  TemplatesCatalog,
+  TemplateCategory,
+  TemplateSource,
+  ModuleResolution,
+  MergedCatalog,
+  ShadowedTemplate
+} from './utils/catalog.js';
+
+export type { Registry, RegistryCatalog, RegistryFailure } from './utils/registry.js';
+
+export type {
+  CreateProjectOptions,
+  CreateProjectResult,
+  FileOverwrite,
+  ModuleOutcome,
+  ModuleStatus,
+  PackageJsonOutcome
+} from './utils/generator.js';
+
+export type { Preset } from './utils/preset.js';
+
+export type { CacheSummary, CachedRepository, CachedSnapshot, CachedCatalog, PruneResult } from './utils/cache.js';
+
+export type {
+  PackageManager,
+  PackageManagerDetection,
+  PackageMergeResult,
+  PackageConflict,
+  PackageEntry
+} from './utils/package.js';
\ No newline at end of file
@@ -3,12 +3,29 @@ export {
   ModifierAction,
   ConditionType,
   ConditionOperator,
-  LogicOperator
+  LogicOperator,
+  PatternType,
+  ExistsPolicy
 } from './utils/modifier.js';
 
+export { Workspace } from './utils/workspace.js';
+export { PropType } from './utils/jsx.js';
+
 export type { 
   ModifierInstruction,
   Condition,
   ConditionGroup,
-  ModifierContext
-} from './utils/modifier.js';
\ No newline at end of file
+  ModifierContext,
+  PatternOptions,
+  ConditionEvaluationResult,
+  InstructionResult,
+  InstructionsResult,
+  InstructionStatus,
+  ModifierHelpers,
+  ActionHandler,
+  ConditionEvaluator,
+  PluginRegistry,
+  PluginRegistrar
+} from './utils/modifier.js';
+
+export type { FileChange } from './utils/workspace.js';
\ No newline at end of file
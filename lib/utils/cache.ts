@@ -1,39 +1,79 @@
 import { FileResource } from './file.js';
 import { PathResource } from './path.js';
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
-import path from 'path';
+import { createHash } from 'crypto';
+import { readdirSync, lstatSync, utimesSync } from 'fs';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+export interface ClonedRepository {
+  path: string;
+  commit: string;
+}
+
+export interface CachedSnapshot {
+  commit: string;
+  paths: string[];
+  size: number;
+  lastUsed: Date;
+}
+
+export interface CachedRepository {
+  key: string;
+  repository: string;
+  snapshots: CachedSnapshot[];
+  size: number;
+}
+
+export interface CachedCatalog {
+  url: string;
+  fetchedAt: Date;
+  size: number;
+}
+
+export interface CacheSummary {
+  path: string;
+  repositories: CachedRepository[];
+  catalogs: CachedCatalog[];
+  size: number;
+}
+
+export interface PruneResult {
+  removed: string[];
+  freed: number;
+}
+
+interface CatalogEntry {
+  url: string;
+  fetchedAt: number;
+  data: unknown;
+}
 
 export class CacheResource {
   private static readonly CACHE_DIR = '.zeck-cache';
-  
+  private static readonly REPOSITORIES_DIR = 'repositories';
+  private static readonly CATALOGS_DIR = 'catalogs';
+  private static readonly GIT_DIR = 'repo.git';
+  private static readonly COMMITS_DIR = 'commits';
+  private static readonly TEMP_MARKER = 'temp-';
+  private static readonly DEFAULT_REF = 'HEAD';
+  private static readonly REF_PATTERN = /^(?!-)[\w./-]+$/;
+  private static readonly SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
   public static getCachePath(): string {
     const homeDir = process.env.HOME || process.env.USERPROFILE || process.cwd();
     return PathResource.join(homeDir, this.CACHE_DIR);
   }
 
-  public static getTempPath(identifier: string): string {
-    return PathResource.join(this.getCachePath(), identifier);
-  }
-
   public static async ensureCache(): Promise<void> {
     const cachePath = this.getCachePath();
     FileResource.ensureDir(cachePath);
   }
 
-  public static async clearTemp(identifier: string): Promise<void> {
-    const tempPath = this.getTempPath(identifier);
-    
-    if (!FileResource.exists(tempPath)) return;
-
-    await this.removeDirectory(tempPath);
-  }
-
   public static async clearAll(): Promise<void> {
     const cachePath = this.getCachePath();
-    
+
     if (!FileResource.exists(cachePath)) return;
 
     await this.removeDirectory(cachePath);
@@ -41,7 +81,7 @@ export class CacheResource {
 
   private static async removeDirectory(dir: string, retries: number = 3): Promise<void> {
     const { rm } = await import('fs/promises');
-    
+
     for (let i = 0; i < retries; i++) {
       try {
         await rm(dir, { recursive: true, force: true, maxRetries: 5 });
@@ -53,25 +93,274 @@ export class CacheResource {
     }
   }
 
-  public static async cloneRepository(repo: string, subdir: string, identifier: string): Promise<string> {
+  public static isValidRef(ref: string): boolean {
+    return this.REF_PATTERN.test(ref);
+  }
+
+  public static async cloneRepository(
+    repo: string,
+    subdir: string,
+    ref: string = this.DEFAULT_REF,
+    offline: boolean = false
+  ): Promise<ClonedRepository> {
+    if (!this.isValidRef(ref)) {
+      throw new Error(`Invalid ref '${ref}'`);
+    }
+
     await this.ensureCache();
-    const tempPath = this.getTempPath(identifier);
-    
-    FileResource.ensureDir(tempPath);
+    const repositoryPath = this.getRepositoryPath(repo);
+    const gitDir = PathResource.join(repositoryPath, this.GIT_DIR);
+
+    const commit = offline
+      ? await this.resolveCachedRef(gitDir, repo, ref)
+      : await this.fetchRef(gitDir, repo, ref);
+
+    const snapshotPath = PathResource.join(repositoryPath, this.COMMITS_DIR, commit);
+    const sourcePath = PathResource.join(snapshotPath, subdir);
 
-    await execAsync('git init', { cwd: tempPath });
-    await execAsync(`git remote add origin ${repo}`, { cwd: tempPath });
-    await execAsync('git config core.sparseCheckout true', { cwd: tempPath });
+    if (!PathResource.isInside(snapshotPath, sourcePath)) {
+      throw new Error(`Template path '${subdir}' is outside the repository`);
+    }
+
+    if (!FileResource.exists(sourcePath)) {
+      await this.extract(gitDir, snapshotPath, commit, subdir);
+    }
 
-    const { writeFile } = await import('fs/promises');
-    await writeFile(
-      PathResource.join(tempPath, '.git', 'info', 'sparse-checkout'),
-      subdir
-    );
+    const now = new Date();
+    utimesSync(snapshotPath, now, now);
 
-    await execAsync('git pull --depth=1 origin master', { cwd: tempPath });
+    return { path: sourcePath, commit };
+  }
+
+  public static readCatalog(url: string): unknown {
+    const catalogPath = this.getCatalogPath(url);
+
+    if (!FileResource.exists(catalogPath)) {
+      throw new Error(`Catalog ${url} is not cached, run once without --offline to cache it`);
+    }
+
+    return FileResource.readJson<CatalogEntry>(catalogPath).data;
+  }
+
+  public static saveCatalog(url: string, data: unknown): void {
+    const catalogsPath = PathResource.join(this.getCachePath(), this.CATALOGS_DIR);
+    const entry: CatalogEntry = { url, fetchedAt: Date.now(), data };
+
+    FileResource.ensureDir(catalogsPath);
+    FileResource.write(this.getCatalogPath(url), JSON.stringify(entry));
+  }
+
+  public static async list(): Promise<CacheSummary> {
+    const cachePath = this.getCachePath();
+    const repositories: CachedRepository[] = [];
+    const catalogs: CachedCatalog[] = [];
+
+    for (const key of this.listEntries(PathResource.join(cachePath, this.REPOSITORIES_DIR))) {
+      const repositoryPath = PathResource.join(cachePath, this.REPOSITORIES_DIR, key);
+      const commitsPath = PathResource.join(repositoryPath, this.COMMITS_DIR);
+
+      const snapshots = this.listEntries(commitsPath)
+        .filter(commit => !commit.includes(this.TEMP_MARKER))
+        .map(commit => {
+          const snapshotPath = PathResource.join(commitsPath, commit);
+          return {
+            commit,
+            paths: this.listEntries(snapshotPath),
+            size: this.getSize(snapshotPath),
+            lastUsed: lstatSync(snapshotPath).mtime
+          };
+        })
+        .sort((a, b) => b.lastUsed.getTime() - a.lastUsed.getTime());
+
+      repositories.push({
+        key,
+        repository: await this.getRemoteUrl(PathResource.join(repositoryPath, this.GIT_DIR)),
+        snapshots,
+        size: this.getSize(repositoryPath)
+      });
+    }
+
+    for (const file of this.listEntries(PathResource.join(cachePath, this.CATALOGS_DIR))) {
+      const catalogPath = PathResource.join(cachePath, this.CATALOGS_DIR, file);
+
+      try {
+        const entry = FileResource.readJson<CatalogEntry>(catalogPath);
+        catalogs.push({ url: entry.url, fetchedAt: new Date(entry.fetchedAt), size: this.getSize(catalogPath) });
+      } catch {
+        catalogs.push({ url: file, fetchedAt: lstatSync(catalogPath).mtime, size: this.getSize(catalogPath) });
+      }
+    }
+
+    return { path: cachePath, repositories, catalogs, size: FileResource.exists(cachePath) ? this.getSize(cachePath) : 0 };
+  }
+
+  public static async prune(maxAgeDays: number = 30): Promise<PruneResult> {
+    const cachePath = this.getCachePath();
+    const maxAgeMs = maxAgeDays * 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const result: PruneResult = { removed: [], freed: 0 };
+
+    const remove = async (target: string, description: string) => {
+      result.freed += this.getSize(target);
+      result.removed.push(description);
+      await this.removeDirectory(target);
+    };
+
+    for (const entry of this.listEntries(cachePath).filter(name => name.startsWith(this.TEMP_MARKER))) {
+      await remove(PathResource.join(cachePath, entry), `leftover ${entry}`);
+    }
+
+    for (const key of this.listEntries(PathResource.join(cachePath, this.REPOSITORIES_DIR))) {
+      const repositoryPath = PathResource.join(cachePath, this.REPOSITORIES_DIR, key);
+      const commitsPath = PathResource.join(repositoryPath, this.COMMITS_DIR);
+
+      for (const commit of this.listEntries(commitsPath)) {
+        const snapshotPath = PathResource.join(commitsPath, commit);
+
+        if (commit.includes(this.TEMP_MARKER) || now - lstatSync(snapshotPath).mtime.getTime() > maxAgeMs) {
+          await remove(snapshotPath, `${key} ${commit.slice(0, 12)}`);
+        }
+      }
+
+      if (this.listEntries(commitsPath).length === 0) {
+        await remove(repositoryPath, key);
+      }
+    }
+
+    return result;
+  }
+
+  private static async fetchRef(gitDir: string, repo: string, ref: string): Promise<string> {
+    if (!(await this.hasOrigin(gitDir))) {
+      await this.removeDirectory(gitDir);
+      FileResource.ensureDir(gitDir);
+
+      try {
+        await this.git(gitDir, ['init', '--bare']);
+        await this.git(gitDir, ['remote', 'add', '--', 'origin', repo]);
+      } catch (error) {
+        await this.removeDirectory(gitDir);
+        throw new Error(`Failed to set up the cache for ${repo}: ${this.describeGitError(error)}`);
+      }
+    }
+
+    try {
+      await this.git(gitDir, ['fetch', '--depth=1', 'origin', ref]);
+      await this.git(gitDir, ['update-ref', `refs/zeck/${ref}`, 'FETCH_HEAD']);
+      return await this.revParse(gitDir, 'FETCH_HEAD');
+    } catch (error) {
+      if (!this.SHA_PATTERN.test(ref)) {
+        throw new Error(`Failed to fetch ref '${ref}': ${this.describeGitError(error)}`);
+      }
+    }
+
+    try {
+      const unshallow = FileResource.exists(PathResource.join(gitDir, 'shallow')) ? ['--unshallow'] : [];
+      await this.git(gitDir, ['fetch', ...unshallow, '--tags', 'origin', '+refs/heads/*:refs/remotes/origin/*']);
+      return await this.revParse(gitDir, `${ref}^{commit}`);
+    } catch (error) {
+      throw new Error(`Failed to fetch commit '${ref}': ${this.describeGitError(error)}`);
+    }
+  }
+
+  private static async resolveCachedRef(gitDir: string, repo: string, ref: string): Promise<string> {
+    if (!FileResource.exists(gitDir)) {
+      throw new Error(`${repo} is not cached, run once without --offline to cache it`);
+    }
+
+    try {
+      return await this.revParse(gitDir, this.SHA_PATTERN.test(ref) ? `${ref}^{commit}` : `refs/zeck/${ref}`);
+    } catch {
+      throw new Error(`Ref '${ref}' of ${repo} is not cached, run once without --offline to cache it`);
+    }
+  }
+
+  private static async extract(gitDir: string, snapshotPath: string, commit: string, subdir: string): Promise<void> {
+    const tempPath = `${snapshotPath}.${this.TEMP_MARKER}${Date.now()}`;
+    const { rename, mkdir } = await import('fs/promises');
+
+    try {
+      FileResource.ensureDir(tempPath);
+
+      try {
+        await execFileAsync('git', ['--literal-pathspecs', '--git-dir', gitDir, '--work-tree', tempPath, 'checkout', commit, '--', subdir]);
+      } catch (error) {
+        throw new Error(`Template path '${subdir}' not found at commit ${commit}: ${this.describeGitError(error)}`);
+      }
+
+      const targetPath = PathResource.join(snapshotPath, subdir);
+      await mkdir(PathResource.join(targetPath, '..'), { recursive: true });
+      await rename(PathResource.join(tempPath, subdir), targetPath);
+    } finally {
+      await this.removeDirectory(tempPath);
+    }
+  }
+
+  private static async git(gitDir: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['--git-dir', gitDir, ...args]);
+    return stdout.trim();
+  }
+
+  private static revParse(gitDir: string, revision: string): Promise<string> {
+    return this.git(gitDir, ['rev-parse', '--verify', revision]);
+  }
+
+  private static async hasOrigin(gitDir: string): Promise<boolean> {
+    if (!FileResource.exists(gitDir)) return false;
+
+    try {
+      await this.git(gitDir, ['remote', 'get-url', 'origin']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static async getRemoteUrl(gitDir: string): Promise<string> {
+    try {
+      return await this.git(gitDir, ['config', '--get', 'remote.origin.url']);
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  private static getRepositoryPath(repo: string): string {
+    const name = repo
+      .replace(/\.git$/, '')
+      .split(/[/:\\]/)
+      .filter(Boolean)
+      .slice(-2)
+      .join('-')
+      .replace(/[^\w.-]/g, '_');
+
+    return PathResource.join(this.getCachePath(), this.REPOSITORIES_DIR, `${name}-${this.hash(repo)}`);
+  }
+
+  private static getCatalogPath(url: string): string {
+    return PathResource.join(this.getCachePath(), this.CATALOGS_DIR, `${this.hash(url)}.json`);
+  }
+
+  private static hash(value: string): string {
+    return createHash('sha1').update(value).digest('hex').slice(0, 12);
+  }
+
+  private static listEntries(dir: string): string[] {
+    return FileResource.isDirectory(dir) ? readdirSync(dir) : [];
+  }
+
+  private static getSize(target: string): number {
+    const stats = lstatSync(target);
+
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+
+    return readdirSync(target).reduce((total, entry) => total + this.getSize(PathResource.join(target, entry)), 0);
+  }
 
-    return PathResource.join(tempPath, subdir);
+  private static describeGitError(error: unknown): string {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    return stderr || (error instanceof Error ? error.message : 'unknown error');
   }
 
   private static sleep(ms: number): Promise<void> {
@@ -0,0 +1,283 @@
+import axios from 'axios';
+
+import githubConfigData from '../config/github.js';
+import { FileResource } from './file.js';
+import { PathResource } from './path.js';
+import { ProjectResource } from './project.js';
+import { CacheResource } from './cache.js';
+
+export interface CatalogModule {
+  name: string;
+  description: string;
+  path: string;
+  excludes?: string[];
+  includes?: string[];
+  priority?: number;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+}
+
+export interface CatalogTemplate {
+  name: string;
+  description: string;
+  url: string;
+  ref?: string;
+  allowOutsideRoot?: boolean;
+  modules?: CatalogModule[];
+  source?: TemplateSource;
+}
+
+export interface TemplatesCatalog {
+  [category: string]: CatalogTemplate[];
+}
+
+export interface TemplateSource {
+  name?: string;
+  catalogUrl?: string;
+  repository: string;
+  local?: boolean;
+  ref?: string;
+}
+
+export interface TemplateCategory {
+  category: string;
+  templates: CatalogTemplate[];
+  sources: string[];
+}
+
+export interface ShadowedTemplate {
+  category: string;
+  template: string;
+  source: string;
+  shadowedBy: string;
+}
+
+export interface MergedCatalog {
+  catalog: TemplatesCatalog;
+  shadowed: ShadowedTemplate[];
+}
+
+export interface ModuleResolution {
+  modules: CatalogModule[];
+  included: string[];
+  excluded: string[];
+}
+
+export class CatalogResource {
+  public static readonly DEFAULT_SOURCE: TemplateSource = {
+    name: 'default',
+    catalogUrl: githubConfigData.templateURL,
+    repository: 'https://github.com/odutradev/zeck-templates.git'
+  };
+
+  private static readonly CATALOG_FILE = 'templates.json';
+  private static readonly RAW_GITHUB = /^https:\/\/raw\.githubusercontent\.com\/([^/]+)\/([^/]+)\/(?:refs\/heads\/|refs\/tags\/)?(.+)\/templates\.json$/;
+
+  public static resolveSource(location: string): TemplateSource {
+    if (location.startsWith('-')) {
+      throw new Error(`Invalid template source '${location}'`);
+    }
+
+    if (/^https?:\/\//.test(location) && location.endsWith('.json')) {
+      const match = location.match(this.RAW_GITHUB);
+
+      if (!match || !CacheResource.isValidRef(match[3])) {
+        throw new Error(
+          `Cannot tell which git repository and branch hold the templates of ${location}, `
+            + 'use a raw.githubusercontent.com url to a root templates.json, the repository url or a local directory as source'
+        );
+      }
+
+      return { catalogUrl: location, repository: `https://github.com/${match[1]}/${match[2]}.git`, ref: match[3] };
+    }
+
+    const directory = PathResource.resolve(location);
+
+    if (FileResource.isDirectory(directory)) {
+      return { repository: directory, local: true };
+    }
+
+    if (this.isGitUrl(location)) {
+      return { repository: location };
+    }
+
+    throw new Error(`Template source not found: ${location} is neither a directory nor a git or raw.githubusercontent.com templates.json url`);
+  }
+
+  public static async load(source: TemplateSource = this.DEFAULT_SOURCE, offline: boolean = false): Promise<TemplatesCatalog> {
+    const data = await this.fetch(source, offline);
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Invalid templates data format');
+    }
+
+    return data as TemplatesCatalog;
+  }
+
+  public static getCategories(catalog: TemplatesCatalog): TemplateCategory[] {
+    return Object.keys(catalog)
+      .filter(category => Array.isArray(catalog[category]))
+      .map(category => ({
+        category,
+        templates: catalog[category],
+        sources: [...new Set(catalog[category].flatMap(template => template.source?.name ? [template.source.name] : []))]
+      }));
+  }
+
+  public static merge(catalogs: Array<{ source: TemplateSource; catalog: TemplatesCatalog }>): MergedCatalog {
+    const merged: TemplatesCatalog = {};
+    const shadowed: ShadowedTemplate[] = [];
+
+    for (const { source, catalog } of catalogs) {
+      for (const { category, templates } of this.getCategories(catalog)) {
+        const target = merged[category] || (merged[category] = []);
+
+        for (const template of templates) {
+          const existing = target.find(entry => entry.name === template.name);
+
+          if (existing) {
+            shadowed.push({ category, template: template.name, source: source.name || source.repository, shadowedBy: existing.source?.name || '' });
+            continue;
+          }
+
+          target.push({ ...template, source });
+        }
+      }
+    }
+
+    return { catalog: merged, shadowed };
+  }
+
+  public static findCategory(catalog: TemplatesCatalog, category: string): CatalogTemplate[] {
+    const categories = this.getCategories(catalog);
+    const match = categories.find(entry => entry.category === category);
+
+    if (!match) {
+      throw new Error(`Unknown category '${category}', available: ${this.describe(categories.map(entry => entry.category))}`);
+    }
+
+    return match.templates;
+  }
+
+  public static findTemplate(templates: CatalogTemplate[], name: string): CatalogTemplate {
+    const template = templates.find(entry => entry.name === name);
+
+    if (!template) {
+      throw new Error(`Unknown template '${name}', available: ${this.describe(templates.map(entry => entry.name))}`);
+    }
+
+    return template;
+  }
+
+  public static findModules(template: CatalogTemplate, names: string[]): CatalogModule[] {
+    const modules = template.modules || [];
+    const unknown = names.filter(name => !modules.some(module => module.name === name));
+
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown module${unknown.length > 1 ? 's' : ''} ${unknown.map(name => `'${name}'`).join(', ')} for template '${template.name}', `
+          + `available: ${this.describe(modules.map(module => module.name))}`
+      );
+    }
+
+    return modules.filter(module => names.includes(module.name));
+  }
+
+  public static resolveModules(template: CatalogTemplate, selected: CatalogModule[]): ModuleResolution {
+    if (selected.length === 0) {
+      return { modules: [], included: [], excluded: [] };
+    }
+
+    const { modules: withIncludes, included } = this.addIncludedModules(selected, template.modules || []);
+    const { modules: filtered, excluded } = this.filterExcludedModules(withIncludes);
+
+    return { modules: this.sortModulesByPriority(filtered), included, excluded };
+  }
+
+  private static addIncludedModules(
+    selectedModules: CatalogModule[],
+    allModules: CatalogModule[]
+  ): { modules: CatalogModule[]; included: string[] } {
+    const moduleMap = new Map(allModules.map(m => [m.name, m]));
+    const finalModules = new Set<CatalogModule>(selectedModules);
+    const addedModuleNames = new Set<string>();
+
+    const addIncludes = (module: CatalogModule) => {
+      if (module.includes) {
+        for (const includeName of module.includes) {
+          const includedModule = moduleMap.get(includeName);
+          if (includedModule && !finalModules.has(includedModule)) {
+            finalModules.add(includedModule);
+            addedModuleNames.add(includeName);
+            addIncludes(includedModule);
+          }
+        }
+      }
+    };
+
+    selectedModules.forEach(module => addIncludes(module));
+
+    return { modules: Array.from(finalModules), included: Array.from(addedModuleNames) };
+  }
+
+  private static filterExcludedModules(selectedModules: CatalogModule[]): { modules: CatalogModule[]; excluded: string[] } {
+    const moduleNames = selectedModules.map(m => m.name);
+    const excludedModules = new Set<string>();
+
+    selectedModules.forEach(module => {
+      if (module.excludes) {
+        module.excludes.forEach(excludeName => {
+          if (moduleNames.includes(excludeName)) {
+            excludedModules.add(excludeName);
+          }
+        });
+      }
+    });
+
+    return {
+      modules: selectedModules.filter(m => !excludedModules.has(m.name)),
+      excluded: Array.from(excludedModules)
+    };
+  }
+
+  private static sortModulesByPriority(modules: CatalogModule[]): CatalogModule[] {
+    return modules.sort((a, b) => {
+      const priorityA = a.priority ?? 0;
+      const priorityB = b.priority ?? 0;
+      return priorityB - priorityA;
+    });
+  }
+
+  private static async fetch(source: TemplateSource, offline: boolean): Promise<unknown> {
+    if (source.catalogUrl && offline) {
+      return CacheResource.readCatalog(source.catalogUrl);
+    }
+
+    if (source.catalogUrl) {
+      const response = await axios.get(source.catalogUrl);
+      CacheResource.saveCatalog(source.catalogUrl, response.data);
+      return response.data;
+    }
+
+    return ProjectResource.withTemplateSource(source, this.CATALOG_FILE, async catalogPath => {
+      if (!FileResource.exists(catalogPath) || FileResource.isDirectory(catalogPath)) {
+        throw new Error(`No ${this.CATALOG_FILE} found in ${source.repository}`);
+      }
+
+      try {
+        return FileResource.readJson<unknown>(catalogPath);
+      } catch {
+        throw new Error(`Invalid ${this.CATALOG_FILE} in ${source.repository}`);
+      }
+    }, offline);
+  }
+
+  private static isGitUrl(location: string): boolean {
+    return /^(https?|ssh|git|file):\/\//.test(location) || /^[\w.-]+@[\w.-]+:/.test(location) || location.endsWith('.git');
+  }
+
+  private static describe(values: string[]): string {
+    return values.length > 0 ? values.join(', ') : '(none)';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { FileResource } from './file.js';
+import { PathResource } from './path.js';
+
+export interface RegistryConfig {
+  name: string;
+  location: string;
+}
+
+export interface UserConfig {
+  packageManager?: string;
+  registries?: RegistryConfig[];
+}
+
+export class ConfigResource {
+  private static readonly CONFIG_FILE = '.zeck-config.json';
+
+  public static getConfigPath(): string {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || process.cwd();
+    return PathResource.join(homeDir, this.CONFIG_FILE);
+  }
+
+  public static load(): UserConfig {
+    const configPath = this.getConfigPath();
+
+    if (!FileResource.exists(configPath)) {
+      return {};
+    }
+
+    try {
+      const config = FileResource.readJson<UserConfig>(configPath);
+      return typeof config === 'object' && config !== null && !Array.isArray(config) ? config : {};
+    } catch {
+      throw new Error(`Invalid config file: ${configPath}`);
+    }
+  }
+
+  public static save(config: UserConfig): void {
+    FileResource.write(this.getConfigPath(), JSON.stringify(config, null, 2));
+  }
+
+  public static get<K extends keyof UserConfig>(key: K): UserConfig[K] {
+    return this.load()[key];
+  }
+
+  public static set<K extends keyof UserConfig>(key: K, value: UserConfig[K]): void {
+    this.save({ ...this.load(), [key]: value });
+  }
+
+  public static unset(key: keyof UserConfig): void {
+    const config = this.load();
+    delete config[key];
+    this.save(config);
+  }
+}
\ No newline at end of file
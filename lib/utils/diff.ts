@@ -0,0 +1,45 @@
+import { createTwoFilesPatch } from 'diff';
+
+import { FileChange, FileContent } from './workspace.js';
+import { FileResource } from './file.js';
+import { PathResource } from './path.js';
+
+export class DiffResource {
+  private static readonly NULL_FILE = '/dev/null';
+
+  public static unified(change: FileChange, root: string): string {
+    const relativePath = PathResource.relative(root, change.path);
+
+    if (change.directory) {
+      return change.after === null
+        ? `Directory removed: ${relativePath}`
+        : `Directory created: ${relativePath}`;
+    }
+
+    if (!FileResource.isTextFile(change.path)) {
+      const verb = change.before === null ? 'created' : change.after === null ? 'deleted' : 'changed';
+      return `Binary file ${verb}: ${relativePath}`;
+    }
+
+    const oldName = change.before === null ? this.NULL_FILE : `a/${relativePath}`;
+    const newName = change.after === null ? this.NULL_FILE : `b/${relativePath}`;
+
+    const patch = createTwoFilesPatch(
+      oldName,
+      newName,
+      this.toText(change.before),
+      this.toText(change.after)
+    );
+
+    return patch
+      .split('\n')
+      .filter(line => !line.startsWith('====='))
+      .join('\n')
+      .trimEnd();
+  }
+
+  private static toText(content: FileContent | null): string {
+    if (content === null) return '';
+    return typeof content === 'string' ? content : content.toString('utf8');
+  }
+}
\ No newline at end of file
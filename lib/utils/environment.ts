@@ -12,6 +12,11 @@ interface ToolCheck {
   minVersion?: string;
 }
 
+interface ToolStatus {
+  installed: boolean;
+  version?: string;
+}
+
 interface ValidationResult {
   valid: boolean;
   missing: string[];
@@ -19,6 +24,9 @@ interface ValidationResult {
 }
 
 export class EnvironmentResource {
+  private static readonly COMMAND_NAME = /^[\w.-]+$/;
+  private static readonly toolCache = new Map<string, Promise<ToolStatus>>();
+
   private static readonly TOOLS: ToolCheck[] = [
     {
       name: 'Node.js',
@@ -68,7 +76,7 @@ export class EnvironmentResource {
     };
   }
 
-  private static async checkTool(tool: ToolCheck): Promise<{ installed: boolean; version?: string }> {
+  public static async checkTool(tool: ToolCheck): Promise<ToolStatus> {
     try {
       const { stdout } = await execAsync(tool.versionCommand);
       const version = this.extractVersion(stdout);
@@ -78,24 +86,47 @@ export class EnvironmentResource {
     }
   }
 
+  public static checkCommand(command: string): Promise<ToolStatus> {
+    const cached = this.toolCache.get(command);
+    if (cached) return cached;
+
+    if (!this.COMMAND_NAME.test(command)) {
+      return Promise.resolve({ installed: false });
+    }
+
+    const status = this.checkTool({
+      name: command,
+      command,
+      versionCommand: `${command} --version`,
+      required: false
+    });
+
+    this.toolCache.set(command, status);
+    return status;
+  }
+
   private static extractVersion(output: string): string {
     const match = output.match(/(\d+\.\d+\.\d+)/);
     return match ? match[1] : '';
   }
 
   private static isVersionValid(current: string, required: string): boolean {
-    const currentParts = current.split('.').map(Number);
-    const requiredParts = required.split('.').map(Number);
+    return this.compareVersions(current, required) >= 0;
+  }
+
+  public static compareVersions(a: string, b: string): number {
+    const aParts = a.replace(/^v/, '').split('.').map(Number);
+    const bParts = b.replace(/^v/, '').split('.').map(Number);
 
     for (let i = 0; i < 3; i++) {
-      const curr = currentParts[i] || 0;
-      const req = requiredParts[i] || 0;
+      const aPart = aParts[i] || 0;
+      const bPart = bParts[i] || 0;
       
-      if (curr > req) return true;
-      if (curr < req) return false;
+      if (aPart > bPart) return 1;
+      if (aPart < bPart) return -1;
     }
 
-    return true;
+    return 0;
   }
 
   public static displayValidationResult(result: ValidationResult): void {
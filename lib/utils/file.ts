@@ -1,5 +1,5 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, statSync } from 'fs';
+import { dirname, join } from 'path';
 
 export class FileResource {
   private static readonly BINARY_EXTENSIONS = [
@@ -45,4 +45,15 @@ export class FileResource {
   public static ensureDir(path: string): void {
     if (!existsSync(path)) mkdirSync(path, { recursive: true });
   }
+
+  public static isDirectory(path: string): boolean {
+    return existsSync(path) && statSync(path).isDirectory();
+  }
+
+  public static listFiles(dir: string): string[] {
+    return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+      const entryPath = join(dir, entry.name);
+      return entry.isDirectory() ? this.listFiles(entryPath) : [entryPath];
+    });
+  }
 }
\ No newline at end of file
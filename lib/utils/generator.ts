@@ -0,0 +1,362 @@
+import { basename, dirname } from 'path';
+
+import { ModifierResource, ModifierInstruction, ModifierContext, InstructionsResult, PluginRegistry } from './modifier.js';
+import { Workspace, FileChange } from './workspace.js';
+import { LintResource, LintIssue } from './lint.js';
+import { FileResource } from './file.js';
+import { PathResource } from './path.js';
+import { ProjectResource } from './project.js';
+import { RegistryResource } from './registry.js';
+import { EnvironmentResource } from './environment.js';
+import { PackageResource, PackageContribution, PackageMergeResult, PackageManagerDetection } from './package.js';
+import { CatalogResource, CatalogModule, CatalogTemplate, TemplateSource, ModuleResolution } from './catalog.js';
+
+export type ModuleStatus = 'applied' | 'rolled-back' | 'invalid' | 'missing' | 'failed';
+
+export interface ModuleOutcome {
+  name: string;
+  status: ModuleStatus;
+  result?: InstructionsResult;
+  issues?: LintIssue[];
+  error?: string;
+}
+
+export interface PackageJsonOutcome {
+  sources: string[];
+  merge?: PackageMergeResult;
+  changes: FileChange[];
+  error?: string;
+}
+
+export interface FileOverwrite {
+  path: string;
+  module: string;
+  owner?: string;
+}
+
+export interface PluginsOutcome {
+  plugins: string[];
+  registry: PluginRegistry;
+  error?: string;
+}
+
+export interface ApplyModulesOptions {
+  projectRoot: string;
+  modules: CatalogModule[];
+  projectName: string;
+  variables?: Record<string, string>;
+  verbose?: boolean;
+  stripMarkers?: boolean;
+  allowOutsideRoot?: boolean;
+  interactive?: boolean;
+  plugins?: PluginRegistry;
+  workspace?: Workspace;
+  onModuleStart?: (module: CatalogModule) => void;
+  onModule?: (outcome: ModuleOutcome) => void;
+}
+
+export interface ApplyModulesResult {
+  modules: ModuleOutcome[];
+  overwrites: FileOverwrite[];
+  packageJson?: PackageJsonOutcome;
+  strippedMarkers: FileChange[];
+}
+
+export interface CreateProjectOptions {
+  source?: TemplateSource;
+  category: string;
+  template: string;
+  modules?: string[];
+  destination?: string;
+  variables?: Record<string, string>;
+  dryRun?: boolean;
+  stripMarkers?: boolean;
+  install?: boolean;
+  ref?: string;
+  offline?: boolean;
+}
+
+export interface CreateProjectResult {
+  success: boolean;
+  dryRun: boolean;
+  destination?: string;
+  template?: CatalogTemplate;
+  commit?: string;
+  resolution?: ModuleResolution;
+  plugins: string[];
+  modules: ModuleOutcome[];
+  overwrites: FileOverwrite[];
+  packageJson?: PackageJsonOutcome;
+  strippedMarkers: FileChange[];
+  packageManager?: PackageManagerDetection;
+  installed: boolean;
+  error?: string;
+}
+
+interface ModuleInstructions {
+  instructions: ModifierInstruction[];
+}
+
+export class GeneratorResource {
+  public static async createProject(options: CreateProjectOptions): Promise<CreateProjectResult> {
+    const result: CreateProjectResult = {
+      success: false,
+      dryRun: options.dryRun || false,
+      plugins: [],
+      modules: [],
+      overwrites: [],
+      strippedMarkers: [],
+      installed: false
+    };
+    const offline = options.offline || false;
+
+    try {
+      const source = { ...(options.source || CatalogResource.DEFAULT_SOURCE), ref: options.ref || options.source?.ref };
+      const catalog = options.source
+        ? await CatalogResource.load(source, offline)
+        : (await RegistryResource.load(offline)).catalog;
+      const template = CatalogResource.findTemplate(CatalogResource.findCategory(catalog, options.category), options.template);
+      const resolution = CatalogResource.resolveModules(template, CatalogResource.findModules(template, options.modules || []));
+      const destination = ProjectResource.resolveDestination(options.destination, template.name);
+      const baseSource = template.source || source;
+      const templateSource = { ...baseSource, ref: options.ref || template.ref || baseSource.ref };
+
+      Object.assign(result, { template, resolution, destination });
+
+      const generate = async (projectRoot: string, workspace: Workspace) => {
+        if (resolution.modules.length > 0) {
+          const plugins = await this.loadPlugins(projectRoot);
+
+          if (plugins.error) {
+            throw new Error(plugins.error);
+          }
+
+          const applied = await this.applyModules({
+            projectRoot,
+            modules: resolution.modules,
+            projectName: basename(destination),
+            variables: options.variables,
+            stripMarkers: options.stripMarkers,
+            allowOutsideRoot: template.allowOutsideRoot,
+            interactive: false,
+            plugins: plugins.registry,
+            workspace
+          });
+
+          Object.assign(result, { plugins: plugins.plugins, ...applied });
+        }
+
+        result.packageManager = PackageResource.detectPackageManager(projectRoot);
+      };
+
+      if (result.dryRun) {
+        await ProjectResource.withTemplateSource(templateSource, template.url, (sourcePath, commit) => {
+          result.commit = commit;
+          return generate(sourcePath, new Workspace(true));
+        }, offline);
+      } else {
+        await ProjectResource.validateDestination(destination);
+        result.commit = await ProjectResource.createFromTemplate(
+          templateSource,
+          template.url,
+          destination,
+          template.allowOutsideRoot,
+          offline
+        );
+        await generate(destination, new Workspace());
+        await ProjectResource.removeModulesFolder(destination);
+
+        if (options.install && result.packageManager) {
+          result.installed = await this.installDependencies(destination, result.packageManager, true);
+        }
+      }
+
+      result.success = result.modules.every(module => module.status === 'applied');
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Failed to create project';
+    }
+
+    return result;
+  }
+
+  public static async loadPlugins(projectRoot: string): Promise<PluginsOutcome> {
+    const registry = ModifierResource.createPluginRegistry();
+
+    try {
+      return { plugins: await ModifierResource.loadPlugins(PathResource.join(projectRoot, '.modules'), registry), registry };
+    } catch (error) {
+      return { plugins: [], registry, error: error instanceof Error ? error.message : 'Failed to load plugins' };
+    }
+  }
+
+  public static async applyModules(options: ApplyModulesOptions): Promise<ApplyModulesResult> {
+    const { projectRoot, modules } = options;
+    const workspace = options.workspace || new Workspace();
+    const outcomes: ModuleOutcome[] = [];
+    const selectedModules = modules.map(module => module.name);
+
+    for (const module of modules) {
+      options.onModuleStart?.(module);
+
+      const outcome = await this.applyModule(module, options, workspace, selectedModules);
+      outcomes.push(outcome);
+      options.onModule?.(outcome);
+
+      if (outcome.status !== 'applied') {
+        selectedModules.splice(selectedModules.indexOf(module.name), 1);
+      }
+    }
+
+    const applied = outcomes
+      .filter(outcome => outcome.status === 'applied')
+      .map(outcome => modules.find(module => module.name === outcome.name) as CatalogModule);
+
+    return {
+      modules: outcomes,
+      overwrites: this.collectOverwrites(outcomes),
+      packageJson: this.mergePackageJson(projectRoot, applied, workspace),
+      strippedMarkers: options.stripMarkers
+        ? ModifierResource.stripRegionMarkers(workspace, projectRoot, [PathResource.join(projectRoot, '.modules', '**')])
+        : []
+    };
+  }
+
+  public static async installDependencies(
+    projectRoot: string,
+    detection: PackageManagerDetection,
+    silent: boolean = false
+  ): Promise<boolean> {
+    const { manager, reason } = detection;
+
+    if (!FileResource.exists(PathResource.join(projectRoot, 'package.json'))) {
+      return false;
+    }
+
+    const status = await EnvironmentResource.checkCommand(manager);
+
+    if (!status.installed) {
+      throw new Error(`${manager} is not installed (${reason}), install it or run the install manually`);
+    }
+
+    await PackageResource.install(projectRoot, manager, silent);
+    return true;
+  }
+
+  private static async applyModule(
+    module: CatalogModule,
+    options: ApplyModulesOptions,
+    workspace: Workspace,
+    selectedModules: string[]
+  ): Promise<ModuleOutcome> {
+    const { projectRoot } = options;
+
+    try {
+      const modulePath = PathResource.join(projectRoot, module.path);
+
+      if (!options.allowOutsideRoot && !PathResource.isInside(projectRoot, modulePath)) {
+        return { name: module.name, status: 'failed', error: `config path '${module.path}' is outside the project root` };
+      }
+
+      if (!FileResource.exists(modulePath)) {
+        return { name: module.name, status: 'missing', error: 'config not found' };
+      }
+
+      const moduleConfig = FileResource.readJson<ModuleInstructions>(modulePath);
+      const issues = LintResource.lintModule(moduleConfig, undefined, options.plugins).filter(issue => issue.severity === 'error');
+
+      if (issues.length > 0) {
+        return { name: module.name, status: 'invalid', issues };
+      }
+
+      const context: ModifierContext = {
+        selectedModules: [...selectedModules],
+        projectRoot,
+        projectName: options.projectName,
+        moduleName: module.name,
+        verbose: options.verbose,
+        variables: options.variables,
+        allowOutsideRoot: options.allowOutsideRoot,
+        interactive: options.interactive,
+        plugins: options.plugins,
+        workspace
+      };
+
+      const instructions = moduleConfig.instructions.map(inst => this.resolveInstruction(inst, projectRoot, dirname(modulePath)));
+      const result = await ModifierResource.processInstructions(instructions, context);
+
+      return { name: module.name, status: result.rolledBack ? 'rolled-back' : 'applied', result };
+    } catch (error) {
+      return { name: module.name, status: 'failed', error: error instanceof Error ? error.message : 'error' };
+    }
+  }
+
+  private static resolveInstruction(inst: ModifierInstruction, projectRoot: string, moduleDir: string): ModifierInstruction {
+    return {
+      ...inst,
+      path: PathResource.join(projectRoot, inst.path),
+      exclude: inst.exclude?.map(pattern => PathResource.join(projectRoot, pattern)),
+      source: inst.source && PathResource.join(moduleDir, inst.source),
+      contentFile: inst.contentFile && PathResource.join(moduleDir, inst.contentFile),
+      replacementFile: inst.replacementFile && PathResource.join(moduleDir, inst.replacementFile),
+      destination: inst.destination && PathResource.join(projectRoot, inst.destination)
+    };
+  }
+
+  private static collectOverwrites(outcomes: ModuleOutcome[]): FileOverwrite[] {
+    const owners = new Map<string, string>();
+    const overwrites: FileOverwrite[] = [];
+
+    for (const outcome of outcomes) {
+      if (outcome.status !== 'applied' || !outcome.result) continue;
+
+      for (const result of outcome.result.results) {
+        if (result.overwritten) {
+          overwrites.push({ path: result.path, module: outcome.name, owner: owners.get(result.path) });
+        }
+
+        result.changes
+          .filter(change => change.after !== null && (change.before === null || result.overwritten))
+          .forEach(change => owners.set(change.path, outcome.name));
+      }
+    }
+
+    return overwrites;
+  }
+
+  private static mergePackageJson(
+    projectRoot: string,
+    modules: CatalogModule[],
+    workspace: Workspace
+  ): PackageJsonOutcome | undefined {
+    const contributions: PackageContribution[] = modules
+      .map(module => ({
+        source: module.name,
+        dependencies: module.dependencies,
+        devDependencies: module.devDependencies,
+        scripts: module.scripts
+      }))
+      .filter(contribution => PackageResource.hasContributions(contribution));
+
+    if (contributions.length === 0) return undefined;
+
+    const sources = contributions.map(contribution => contribution.source);
+    const packagePath = PathResource.join(projectRoot, 'package.json');
+
+    if (!workspace.isFile(packagePath)) {
+      return { sources, changes: [], error: 'package.json not found' };
+    }
+
+    try {
+      workspace.takeChanges();
+      const merge = PackageResource.merge(workspace.read(packagePath), contributions);
+
+      if (merge.added.length > 0) {
+        workspace.write(packagePath, merge.content);
+      }
+
+      return { sources, merge, changes: workspace.takeChanges() };
+    } catch (error) {
+      return { sources, changes: [], error: error instanceof Error ? error.message : 'unknown error' };
+    }
+  }
+}
\ No newline at end of file
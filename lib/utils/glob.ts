@@ -0,0 +1,92 @@
+import { sep } from 'path';
+
+export class GlobResource {
+  private static readonly GLOB_CHARS = /[*?[\]{}]/;
+  private static readonly DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**'];
+
+  public static isGlob(pattern: string): boolean {
+    return this.GLOB_CHARS.test(pattern);
+  }
+
+  public static getBase(pattern: string): string {
+    const segments = this.normalize(pattern).split('/');
+    const index = segments.findIndex(segment => this.isGlob(segment));
+    const base = segments.slice(0, index === -1 ? segments.length : index).join('/');
+
+    return (base || (pattern.startsWith('/') ? '/' : '.')).split('/').join(sep);
+  }
+
+  public static toRegExp(pattern: string): RegExp {
+    const source = this.normalize(pattern);
+    let regex = '';
+    let braces = 0;
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (char === '*') {
+        if (source[i + 1] === '*') {
+          const slash = source[i + 2] === '/';
+          regex += slash ? '(?:.*/)?' : '.*';
+          i += slash ? 2 : 1;
+        } else {
+          regex += '[^/]*';
+        }
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else if (char === '[') {
+        const end = source.indexOf(']', i + 1);
+
+        if (end === -1) {
+          regex += '\\[';
+          continue;
+        }
+
+        const body = source.slice(i + 1, end).replace(/\\/g, '\\\\');
+        regex += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      } else if (char === '{') {
+        braces++;
+        regex += '(?:';
+      } else if (char === '}' && braces > 0) {
+        braces--;
+        regex += ')';
+      } else if (char === ',' && braces > 0) {
+        regex += '|';
+      } else {
+        regex += char.replace(/[.+^$()|\\/]/g, '\\$&');
+      }
+    }
+
+    if (braces > 0) {
+      throw new Error(`Unclosed '{' in glob pattern '${pattern}'`);
+    }
+
+    return new RegExp(`^${regex}$`);
+  }
+
+  public static matches(filePath: string, pattern: string): boolean {
+    return this.toRegExp(pattern).test(this.normalize(filePath));
+  }
+
+  public static filter(files: string[], pattern: string, exclude: string[] = []): string[] {
+    const include = this.toRegExp(pattern);
+    const excluded = [...this.DEFAULT_EXCLUDE, ...exclude]
+      .filter(excludePattern => !this.isExplicit(pattern, excludePattern))
+      .map(excludePattern => this.toRegExp(excludePattern));
+
+    return files.filter(file => {
+      const normalized = this.normalize(file);
+      return include.test(normalized) && !excluded.some(regex => regex.test(normalized));
+    });
+  }
+
+  private static isExplicit(pattern: string, excludePattern: string): boolean {
+    return this.DEFAULT_EXCLUDE.includes(excludePattern)
+      && this.normalize(pattern).includes(`/${excludePattern.split('/')[1]}/`);
+  }
+
+  private static normalize(path: string): string {
+    return path.split(sep).join('/');
+  }
+}
\ No newline at end of file
@@ -2,6 +2,13 @@ import { createHash } from 'crypto';
 import { FileResource } from './file.js';
 import { PathResource } from './path.js';
 
+export interface LoggedCondition {
+  passed: boolean;
+  reason: string;
+  logic?: string;
+  children?: LoggedCondition[];
+}
+
 export interface InstructionLog {
   hash: string;
   timestamp: number;
@@ -11,19 +18,31 @@ export interface InstructionLog {
   instruction: {
     path: string;
     action: string;
+    exclude?: string[];
     content?: string;
+    contentFile?: string;
     pattern?: string;
     replacement?: string;
+    replacementFile?: string;
+    region?: string;
     componentName?: string;
     propName?: string;
     propValue?: string;
+    propType?: string;
+    occurrence?: number;
+    patternType?: string;
+    flags?: string;
+    jsonPath?: string;
+    value?: unknown;
+    source?: string;
+    destination?: string;
+    newName?: string;
+    onExists?: string;
+    options?: Record<string, unknown>;
   };
-  status: 'success' | 'skipped' | 'failed';
+  status: 'success' | 'already-applied' | 'skipped' | 'no-match' | 'failed';
   error?: string;
-  conditions?: Array<{
-    passed: boolean;
-    reason: string;
-  }>;
+  conditions?: LoggedCondition[];
 }
 
 export class InstructionLogResource {
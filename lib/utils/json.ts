@@ -0,0 +1,175 @@
+import {
+  parse,
+  modify,
+  applyEdits,
+  printParseErrorCode,
+  ParseError,
+  JSONPath,
+  FormattingOptions
+} from 'jsonc-parser';
+
+export class JsonResource {
+  private static readonly PARSE_OPTIONS = { allowTrailingComma: true, disallowComments: false };
+  private static readonly PATH_SEGMENT = /([^.[\]]+)|\[(\d+)\]|\[(["'])(.*?)\3\]/g;
+
+  public static parsePath(path: string): JSONPath {
+    const segments: JSONPath = [];
+    let consumed = 0;
+
+    for (const match of path.matchAll(this.PATH_SEGMENT)) {
+      const separator = path.slice(consumed, match.index);
+      if (separator !== '' && separator !== '.') {
+        throw new Error(`Invalid JSON path '${path}'`);
+      }
+
+      if (match[1] !== undefined) segments.push(match[1]);
+      else if (match[2] !== undefined) segments.push(Number(match[2]));
+      else segments.push(match[4]);
+
+      consumed = (match.index || 0) + match[0].length;
+    }
+
+    if (consumed !== path.length) {
+      throw new Error(`Invalid JSON path '${path}'`);
+    }
+
+    return segments;
+  }
+
+  public static parse(text: string, source: string = 'file'): unknown {
+    const errors: ParseError[] = [];
+    const value = parse(text, errors, this.PARSE_OPTIONS);
+
+    if (errors.length > 0) {
+      const [error] = errors;
+      throw new Error(`Invalid JSON in ${source}: ${printParseErrorCode(error.error)} at offset ${error.offset}`);
+    }
+
+    return value;
+  }
+
+  public static has(text: string, path: string): boolean {
+    return this.lookup(this.parse(text), this.parsePath(path)).found;
+  }
+
+  public static get(text: string, path: string): unknown {
+    return this.lookup(this.parse(text), this.parsePath(path)).value;
+  }
+
+  public static set(text: string, path: string, value: unknown): string {
+    this.parse(text);
+    return this.applyModification(text, this.parsePath(path), value);
+  }
+
+  public static remove(text: string, path: string): string {
+    const segments = this.parsePath(path);
+
+    if (!this.lookup(this.parse(text), segments).found) {
+      return text;
+    }
+
+    return this.applyModification(text, segments, undefined);
+  }
+
+  public static merge(text: string, value: unknown): string {
+    const current = this.parse(text);
+
+    if (!this.isPlainObject(value)) {
+      throw new Error('Merge value must be a JSON object');
+    }
+
+    if (!this.isPlainObject(current)) {
+      throw new Error('Merge target must be a JSON object');
+    }
+
+    return this.mergeInto(text, [], current, value);
+  }
+
+  public static equals(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.equals(item, b[index]));
+    }
+
+    if (this.isPlainObject(a) && this.isPlainObject(b)) {
+      const keys = Object.keys(a);
+      return keys.length === Object.keys(b).length
+        && keys.every(key => key in b && this.equals(a[key], b[key]));
+    }
+
+    return false;
+  }
+
+  private static mergeInto(
+    text: string,
+    path: JSONPath,
+    current: Record<string, unknown>,
+    patch: Record<string, unknown>
+  ): string {
+    let result = text;
+
+    for (const [key, value] of Object.entries(patch)) {
+      const existing = current[key];
+      const keyPath = [...path, key];
+
+      if (this.isPlainObject(existing) && this.isPlainObject(value)) {
+        result = this.mergeInto(result, keyPath, existing, value);
+      } else if (Array.isArray(existing) && Array.isArray(value)) {
+        const missing = value.filter(item => !existing.some(entry => this.equals(entry, item)));
+        missing.forEach((item, offset) => {
+          result = this.applyModification(result, [...keyPath, existing.length + offset], item, true);
+        });
+      } else if (!this.equals(existing, value)) {
+        result = this.applyModification(result, keyPath, value);
+      }
+    }
+
+    return result;
+  }
+
+  private static applyModification(
+    text: string,
+    path: JSONPath,
+    value: unknown,
+    isArrayInsertion: boolean = false
+  ): string {
+    const edits = modify(text, path, value, {
+      formattingOptions: this.detectFormatting(text),
+      isArrayInsertion
+    });
+    return applyEdits(text, edits);
+  }
+
+  private static lookup(root: unknown, path: JSONPath): { found: boolean; value?: unknown } {
+    let current: unknown = root;
+
+    for (const segment of path) {
+      if (Array.isArray(current) && typeof segment === 'number' && segment < current.length) {
+        current = current[segment];
+      } else if (this.isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+        current = current[segment];
+      } else {
+        return { found: false };
+      }
+    }
+
+    return { found: true, value: current };
+  }
+
+  private static detectFormatting(text: string): FormattingOptions {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const indentMatch = text.match(/^([ \t]+)\S/m);
+    const indent = indentMatch ? indentMatch[1] : '  ';
+
+    return {
+      eol,
+      insertSpaces: !indent.includes('\t'),
+      tabSize: indent.includes('\t') ? 1 : indent.length
+    };
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
\ No newline at end of file
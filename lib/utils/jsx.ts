@@ -0,0 +1,221 @@
+import { parse, ParserPlugin } from '@babel/parser';
+
+export enum PropType {
+  STRING = 'STRING',
+  EXPRESSION = 'EXPRESSION',
+  BOOLEAN = 'BOOLEAN'
+}
+
+export interface PropTarget {
+  componentName: string;
+  propName: string;
+  propValue?: string;
+  propType?: PropType;
+  occurrence?: number;
+}
+
+export interface JsxEditResult {
+  content: string;
+  changed: boolean;
+}
+
+interface AstNode {
+  type: string;
+  start: number;
+  end: number;
+  [key: string]: unknown;
+}
+
+interface JsxAttribute extends AstNode {
+  name: AstNode & { name?: string; namespace?: { name: string } };
+  value: AstNode | null;
+}
+
+interface JsxOpeningElement extends AstNode {
+  name: AstNode;
+  attributes: AstNode[];
+  selfClosing: boolean;
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export class JsxResource {
+  public static insertProp(source: string, filePath: string, target: PropTarget): JsxEditResult {
+    const elements = this.findElements(source, filePath, target);
+    const edits: TextEdit[] = [];
+
+    for (const element of elements) {
+      if (this.findAttribute(element, target.propName)) continue;
+      edits.push(this.buildInsertion(source, element, this.renderProp(target)));
+    }
+
+    return this.applyEdits(source, edits);
+  }
+
+  public static updateProp(source: string, filePath: string, target: PropTarget): JsxEditResult {
+    const elements = this.findElements(source, filePath, target);
+    const attributes = elements
+      .map(element => this.findAttribute(element, target.propName))
+      .filter((attribute): attribute is JsxAttribute => attribute !== undefined);
+
+    if (attributes.length === 0) {
+      throw new Error(`Prop '${target.propName}' not found on <${target.componentName}>`);
+    }
+
+    const rendered = this.renderProp(target);
+    const edits = attributes
+      .filter(attribute => source.slice(attribute.start, attribute.end) !== rendered)
+      .map(attribute => ({ start: attribute.start, end: attribute.end, text: rendered }));
+
+    return this.applyEdits(source, edits);
+  }
+
+  public static removeProp(source: string, filePath: string, target: PropTarget): JsxEditResult {
+    const elements = this.findElements(source, filePath, target);
+    const edits: TextEdit[] = [];
+
+    for (const element of elements) {
+      const attribute = this.findAttribute(element, target.propName);
+      if (!attribute) continue;
+
+      let start = attribute.start;
+      while (start > 0 && /\s/.test(source[start - 1])) start--;
+      edits.push({ start, end: attribute.end, text: '' });
+    }
+
+    return this.applyEdits(source, edits);
+  }
+
+  private static findElements(source: string, filePath: string, target: PropTarget): JsxOpeningElement[] {
+    const matches = this.collectOpeningElements(this.parseSource(source, filePath))
+      .filter(element => this.getElementName(element.name) === target.componentName)
+      .sort((a, b) => a.start - b.start);
+
+    if (matches.length === 0) {
+      throw new Error(`Component <${target.componentName}> not found`);
+    }
+
+    if (target.occurrence === undefined) {
+      return matches;
+    }
+
+    const element = matches[target.occurrence - 1];
+
+    if (!element) {
+      throw new Error(`Component <${target.componentName}> occurrence ${target.occurrence} not found (${matches.length} found)`);
+    }
+
+    return [element];
+  }
+
+  private static parseSource(source: string, filePath: string): AstNode {
+    const plugins: ParserPlugin[] = filePath.endsWith('.tsx')
+      ? ['jsx', 'typescript']
+      : filePath.endsWith('.ts') ? ['typescript'] : ['jsx'];
+
+    try {
+      return parse(source, { sourceType: 'module', plugins }) as unknown as AstNode;
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+
+  private static collectOpeningElements(root: AstNode): JsxOpeningElement[] {
+    const elements: JsxOpeningElement[] = [];
+    const stack: unknown[] = [root];
+
+    while (stack.length > 0) {
+      const node = stack.pop();
+
+      if (Array.isArray(node)) {
+        stack.push(...node);
+        continue;
+      }
+
+      if (!this.isNode(node)) continue;
+
+      if (node.type === 'JSXOpeningElement') {
+        elements.push(node as JsxOpeningElement);
+      }
+
+      for (const [key, value] of Object.entries(node)) {
+        if (key !== 'loc' && typeof value === 'object' && value !== null) {
+          stack.push(value);
+        }
+      }
+    }
+
+    return elements;
+  }
+
+  private static getElementName(name: AstNode): string {
+    switch (name.type) {
+      case 'JSXIdentifier':
+        return name.name as string;
+      case 'JSXMemberExpression':
+        return `${this.getElementName(name.object as AstNode)}.${this.getElementName(name.property as AstNode)}`;
+      case 'JSXNamespacedName':
+        return `${(name.namespace as AstNode).name}:${(name.name as AstNode).name}`;
+      default:
+        return '';
+    }
+  }
+
+  private static findAttribute(element: JsxOpeningElement, propName: string): JsxAttribute | undefined {
+    return element.attributes.find((attribute): attribute is JsxAttribute =>
+      attribute.type === 'JSXAttribute'
+        && this.getElementName((attribute as JsxAttribute).name) === propName
+    );
+  }
+
+  private static buildInsertion(source: string, element: JsxOpeningElement, prop: string): TextEdit {
+    const anchor = element.attributes[element.attributes.length - 1] || element.name;
+    const nameLine = this.getLineStart(source, element.start);
+    const anchorLine = this.getLineStart(source, anchor.start);
+
+    if (element.attributes.length > 0 && anchorLine !== nameLine) {
+      const indent = source.slice(anchorLine).match(/^[ \t]*/)?.[0] || '';
+      return { start: anchor.end, end: anchor.end, text: `\n${indent}${prop}` };
+    }
+
+    return { start: anchor.end, end: anchor.end, text: ` ${prop}` };
+  }
+
+  private static renderProp(target: PropTarget): string {
+    const { propName, propValue } = target;
+    const propType = target.propType || (propValue ? PropType.EXPRESSION : PropType.BOOLEAN);
+
+    switch (propType) {
+      case PropType.STRING:
+        return (propValue || '').includes('"')
+          ? `${propName}={${JSON.stringify(propValue || '')}}`
+          : `${propName}="${propValue || ''}"`;
+
+      case PropType.BOOLEAN:
+        return propValue === 'false' ? `${propName}={false}` : propName;
+
+      default:
+        return `${propName}={${propValue}}`;
+    }
+  }
+
+  private static applyEdits(source: string, edits: TextEdit[]): JsxEditResult {
+    const content = [...edits]
+      .sort((a, b) => b.start - a.start)
+      .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), source);
+
+    return { content, changed: edits.length > 0 };
+  }
+
+  private static getLineStart(source: string, position: number): number {
+    return source.lastIndexOf('\n', position - 1) + 1;
+  }
+
+  private static isNode(value: unknown): value is AstNode {
+    return typeof value === 'object' && value !== null && typeof (value as AstNode).type === 'string';
+  }
+}
\ No newline at end of file
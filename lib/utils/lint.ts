@@ -0,0 +1,437 @@
+import { ModifierResource, ModifierAction, ConditionType, ConditionOperator, LogicOperator, PatternType, ExistsPolicy, PluginRegistry } from './modifier.js';
+import { PropType } from './jsx.js';
+import { GlobResource } from './glob.js';
+import { CacheResource } from './cache.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  location: string;
+  message: string;
+  severity: LintSeverity;
+}
+
+type Json = Record<string, unknown>;
+
+export class LintResource {
+  private static readonly ACTION_FIELDS: Record<ModifierAction, string[]> = {
+    [ModifierAction.CREATE_FILE]: ['content'],
+    [ModifierAction.DELETE_FILE]: [],
+    [ModifierAction.RENAME_FILE]: ['newName'],
+    [ModifierAction.MOVE_FILE]: ['destination'],
+    [ModifierAction.COPY_FILE]: ['source'],
+    [ModifierAction.CREATE_DIRECTORY]: [],
+    [ModifierAction.DELETE_DIRECTORY]: [],
+    [ModifierAction.INSERT_IMPORT]: ['content'],
+    [ModifierAction.REMOVE_IMPORT]: ['content'],
+    [ModifierAction.INSERT_AFTER]: ['pattern', 'content'],
+    [ModifierAction.INSERT_BEFORE]: ['pattern', 'content'],
+    [ModifierAction.REPLACE_CONTENT]: ['pattern', 'replacement'],
+    [ModifierAction.APPEND_TO_FILE]: ['content'],
+    [ModifierAction.REMOVE_LINES]: ['pattern'],
+    [ModifierAction.REPLACE_REGION]: ['region', 'content'],
+    [ModifierAction.APPEND_TO_REGION]: ['region', 'content'],
+    [ModifierAction.REMOVE_REGION]: ['region'],
+    [ModifierAction.INSERT_PROP]: ['componentName', 'propName'],
+    [ModifierAction.UPDATE_PROP]: ['componentName', 'propName'],
+    [ModifierAction.REMOVE_PROP]: ['componentName', 'propName'],
+    [ModifierAction.MERGE_JSON]: ['value'],
+    [ModifierAction.SET_JSON_PATH]: ['jsonPath', 'value'],
+    [ModifierAction.REMOVE_JSON_PATH]: ['jsonPath']
+  };
+
+  private static readonly CONDITION_FIELDS: Partial<Record<ConditionType, string[]>> = {
+    [ConditionType.MODULE_EXISTS]: ['value'],
+    [ConditionType.MODULE_NOT_EXISTS]: ['value'],
+    [ConditionType.PATTERN_EXISTS]: ['value'],
+    [ConditionType.PATTERN_NOT_EXISTS]: ['value'],
+    [ConditionType.PATTERN_COUNT]: ['value'],
+    [ConditionType.JSON_PATH_EXISTS]: ['value'],
+    [ConditionType.JSON_PATH_EQUALS]: ['value', 'expected'],
+    [ConditionType.DEPENDENCY_EXISTS]: ['value'],
+    [ConditionType.ENV_VAR_SET]: ['value'],
+    [ConditionType.PLATFORM_IS]: ['value'],
+    [ConditionType.TOOL_AVAILABLE]: ['value'],
+    [ConditionType.NODE_VERSION]: ['value']
+  };
+
+  private static readonly SINGLE_TARGET_ACTIONS = [
+    ModifierAction.CREATE_FILE,
+    ModifierAction.COPY_FILE,
+    ModifierAction.CREATE_DIRECTORY
+  ];
+
+  private static readonly FILE_FIELDS: Record<string, string> = {
+    content: 'contentFile',
+    replacement: 'replacementFile'
+  };
+
+  private static readonly STRING_FIELDS = [
+    'path', 'content', 'contentFile', 'pattern', 'replacement', 'replacementFile', 'region', 'componentName', 'propName', 'propValue', 'flags', 'jsonPath',
+    'source', 'destination', 'newName'
+  ];
+
+  private static readonly INSTRUCTION_FIELDS = [
+    ...LintResource.STRING_FIELDS, 'action', 'exclude', 'patternType', 'propType', 'occurrence', 'value', 'onExists', 'interpolate', 'options', 'condition'
+  ];
+
+  public static lintModule(data: unknown, knownModules?: string[], plugins?: PluginRegistry): LintIssue[] {
+    const issues: LintIssue[] = [];
+
+    if (!this.isObject(data)) {
+      return [this.error('', 'Module file must be a JSON object')];
+    }
+
+    if (!Array.isArray(data.instructions)) {
+      return [this.error('instructions', 'Missing required array')];
+    }
+
+    data.instructions.forEach((instruction, index) => {
+      issues.push(...this.lintInstruction(instruction, `instructions[${index}]`, knownModules, plugins));
+    });
+
+    return issues;
+  }
+
+  public static lintCatalog(data: unknown): LintIssue[] {
+    const issues: LintIssue[] = [];
+
+    if (!this.isObject(data)) {
+      return [this.error('', 'Templates file must be a JSON object of categories')];
+    }
+
+    for (const [category, templates] of Object.entries(data)) {
+      if (category === '$schema') continue;
+
+      if (!Array.isArray(templates)) {
+        issues.push(this.error(category, 'Category must be an array of templates'));
+        continue;
+      }
+
+      templates.forEach((template, index) => {
+        issues.push(...this.lintTemplate(template, `${category}[${index}]`));
+      });
+    }
+
+    return issues;
+  }
+
+  public static hasErrors(issues: LintIssue[]): boolean {
+    return issues.some(issue => issue.severity === 'error');
+  }
+
+  private static lintTemplate(template: unknown, location: string): LintIssue[] {
+    if (!this.isObject(template)) {
+      return [this.error(location, 'Template must be an object')];
+    }
+
+    const issues = this.requireStrings(template, ['name', 'description', 'url'], location);
+
+    if (template.ref !== undefined && (typeof template.ref !== 'string' || !CacheResource.isValidRef(template.ref))) {
+      issues.push(this.error(`${location}.ref`, 'Must be a git tag, branch or commit'));
+    }
+
+    if (template.allowOutsideRoot !== undefined && typeof template.allowOutsideRoot !== 'boolean') {
+      issues.push(this.error(`${location}.allowOutsideRoot`, 'Must be a boolean'));
+    }
+
+    if (template.modules === undefined) return issues;
+
+    if (!Array.isArray(template.modules)) {
+      issues.push(this.error(`${location}.modules`, 'Must be an array'));
+      return issues;
+    }
+
+    const names = template.modules
+      .filter((module): module is Json => this.isObject(module) && typeof module.name === 'string')
+      .map(module => module.name as string);
+
+    const seen = new Set<string>();
+
+    template.modules.forEach((module, index) => {
+      const moduleLocation = `${location}.modules[${index}]`;
+
+      if (!this.isObject(module)) {
+        issues.push(this.error(moduleLocation, 'Module must be an object'));
+        return;
+      }
+
+      issues.push(...this.requireStrings(module, ['name', 'description', 'path'], moduleLocation));
+
+      if (typeof module.name === 'string') {
+        if (seen.has(module.name)) {
+          issues.push(this.error(`${moduleLocation}.name`, `Duplicate module name '${module.name}'`));
+        }
+        seen.add(module.name);
+      }
+
+      if (module.priority !== undefined && typeof module.priority !== 'number') {
+        issues.push(this.error(`${moduleLocation}.priority`, 'Must be a number'));
+      }
+
+      for (const field of ['dependencies', 'devDependencies', 'scripts']) {
+        const entries = module[field];
+        if (entries === undefined) continue;
+
+        if (!this.isObject(entries) || !Object.values(entries).every(value => typeof value === 'string' && value !== '')) {
+          issues.push(this.error(`${moduleLocation}.${field}`, 'Must be an object of non-empty strings'));
+        }
+      }
+
+      for (const field of ['includes', 'excludes']) {
+        const references = module[field];
+        if (references === undefined) continue;
+
+        if (!Array.isArray(references)) {
+          issues.push(this.error(`${moduleLocation}.${field}`, 'Must be an array of module names'));
+          continue;
+        }
+
+        references.forEach((reference, refIndex) => {
+          if (typeof reference !== 'string' || !names.includes(reference)) {
+            issues.push(this.error(`${moduleLocation}.${field}[${refIndex}]`, `Unknown module '${reference}'`));
+          }
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  private static lintInstruction(instruction: unknown, location: string, knownModules?: string[], plugins?: PluginRegistry): LintIssue[] {
+    if (!this.isObject(instruction)) {
+      return [this.error(location, 'Instruction must be an object')];
+    }
+
+    const issues: LintIssue[] = [];
+
+    for (const field of Object.keys(instruction)) {
+      if (!this.INSTRUCTION_FIELDS.includes(field)) {
+        issues.push(this.warning(`${location}.${field}`, `Unknown field '${field}'`));
+      }
+    }
+
+    for (const field of this.STRING_FIELDS) {
+      if (instruction[field] !== undefined && typeof instruction[field] !== 'string') {
+        issues.push(this.error(`${location}.${field}`, 'Must be a string'));
+      }
+    }
+
+    if (typeof instruction.path !== 'string' || instruction.path === '') {
+      issues.push(this.error(`${location}.path`, 'Missing required field'));
+    }
+
+    const action = instruction.action;
+
+    if (typeof action !== 'string') {
+      issues.push(this.error(`${location}.action`, 'Missing required field'));
+    } else if (ModifierResource.isActionRegistered(action, plugins)) {
+      issues.push(...this.lintOptions(instruction, location));
+    } else if (!this.isEnumValue(ModifierAction, action)) {
+      issues.push(this.error(`${location}.action`, `Unknown action '${action}'`));
+    } else {
+      for (const field of this.ACTION_FIELDS[action]) {
+        const fileField = this.FILE_FIELDS[field];
+
+        if (instruction[field] === undefined && (!fileField || instruction[fileField] === undefined)) {
+          issues.push(this.error(`${location}.${field}`, `Missing required field for ${action}`));
+        }
+      }
+    }
+
+    for (const [field, fileField] of Object.entries(this.FILE_FIELDS)) {
+      if (instruction[field] !== undefined && instruction[fileField] !== undefined) {
+        issues.push(this.error(`${location}.${fileField}`, `Use either ${field} or ${fileField}, not both`));
+      }
+    }
+
+    issues.push(...this.lintGlob(instruction, location));
+
+    if (instruction.propType !== undefined && !this.isEnumValue(PropType, instruction.propType)) {
+      issues.push(this.error(`${location}.propType`, `Unknown prop type '${instruction.propType}'`));
+    }
+
+    if (instruction.onExists !== undefined) {
+      if (!this.isEnumValue(ExistsPolicy, instruction.onExists)) {
+        issues.push(this.error(`${location}.onExists`, `Unknown policy '${instruction.onExists}', expected one of ${Object.values(ExistsPolicy).join(', ')}`));
+      } else if (action !== ModifierAction.CREATE_FILE) {
+        issues.push(this.warning(`${location}.onExists`, 'onExists only applies to CREATE_FILE'));
+      }
+    }
+
+    if (instruction.interpolate !== undefined && typeof instruction.interpolate !== 'boolean') {
+      issues.push(this.error(`${location}.interpolate`, 'Must be a boolean'));
+    }
+
+    if (instruction.occurrence !== undefined
+      && (!Number.isInteger(instruction.occurrence) || (instruction.occurrence as number) < 1)) {
+      issues.push(this.error(`${location}.occurrence`, 'Must be a positive integer'));
+    }
+
+    issues.push(...this.lintPatternOptions(instruction, location, 'pattern'));
+
+    if (instruction.condition !== undefined) {
+      issues.push(...this.lintConditionGroup(instruction.condition, `${location}.condition`, knownModules, plugins));
+    }
+
+    return issues;
+  }
+
+  private static lintGlob(instruction: Json, location: string): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const { path, exclude, action } = instruction;
+    const patterns: Array<[string, unknown]> = [[`${location}.path`, path]];
+
+    if (exclude !== undefined) {
+      if (!Array.isArray(exclude)) {
+        return [this.error(`${location}.exclude`, 'Must be an array of glob patterns')];
+      }
+
+      exclude.forEach((pattern, index) => patterns.push([`${location}.exclude[${index}]`, pattern]));
+    }
+
+    for (const [patternLocation, pattern] of patterns) {
+      if (typeof pattern !== 'string') {
+        if (patternLocation !== `${location}.path`) issues.push(this.error(patternLocation, 'Must be a string'));
+        continue;
+      }
+
+      try {
+        GlobResource.toRegExp(pattern);
+      } catch (error) {
+        issues.push(this.error(patternLocation, error instanceof Error ? error.message : 'Invalid glob pattern'));
+      }
+    }
+
+    if (typeof path === 'string' && /[*?]/.test(path)
+      && this.SINGLE_TARGET_ACTIONS.some(singleAction => singleAction === action)) {
+      issues.push(this.warning(`${location}.path`, `${action} does not support glob patterns, the path is used literally`));
+    }
+
+    if (exclude !== undefined && typeof path === 'string' && !GlobResource.isGlob(path)) {
+      issues.push(this.warning(`${location}.exclude`, 'Only used when path is a glob pattern'));
+    }
+
+    return issues;
+  }
+
+  private static lintConditionGroup(group: unknown, location: string, knownModules?: string[], plugins?: PluginRegistry): LintIssue[] {
+    if (!this.isObject(group) || !Array.isArray(group.conditions)) {
+      return [this.error(location, 'Condition group must have a conditions array')];
+    }
+
+    const issues: LintIssue[] = [];
+
+    if (group.logic !== undefined && !this.isEnumValue(LogicOperator, group.logic)) {
+      issues.push(this.error(`${location}.logic`, `Unknown logic operator '${group.logic}'`));
+    }
+
+    group.conditions.forEach((node, index) => {
+      const nodeLocation = `${location}.conditions[${index}]`;
+
+      if (this.isObject(node) && Array.isArray(node.conditions)) {
+        issues.push(...this.lintConditionGroup(node, nodeLocation, knownModules, plugins));
+      } else {
+        issues.push(...this.lintCondition(node, nodeLocation, knownModules, plugins));
+      }
+    });
+
+    return issues;
+  }
+
+  private static lintCondition(condition: unknown, location: string, knownModules?: string[], plugins?: PluginRegistry): LintIssue[] {
+    if (!this.isObject(condition)) {
+      return [this.error(location, 'Condition must be an object')];
+    }
+
+    const issues: LintIssue[] = [];
+    const type = condition.type;
+
+    if (typeof type !== 'string') {
+      return [this.error(`${location}.type`, 'Missing required field')];
+    }
+
+    if (ModifierResource.isConditionRegistered(type, plugins)) {
+      return this.lintOptions(condition, location);
+    }
+
+    if (!this.isEnumValue(ConditionType, type)) {
+      return [this.error(`${location}.type`, `Unknown condition type '${type}'`)];
+    }
+
+    for (const field of this.CONDITION_FIELDS[type] || []) {
+      if (condition[field] === undefined) {
+        issues.push(this.error(`${location}.${field}`, `Missing required field for ${type}`));
+      }
+    }
+
+    if ((type === ConditionType.FILE_EXISTS || type === ConditionType.FILE_NOT_EXISTS)
+      && condition.target === undefined && condition.value === undefined) {
+      issues.push(this.error(location, `${type} requires a target or value`));
+    }
+
+    if (condition.operator !== undefined && !this.isEnumValue(ConditionOperator, condition.operator)) {
+      issues.push(this.error(`${location}.operator`, `Unknown operator '${condition.operator}'`));
+    }
+
+    if (condition.count !== undefined && typeof condition.count !== 'number') {
+      issues.push(this.error(`${location}.count`, 'Must be a number'));
+    }
+
+    if ((type === ConditionType.MODULE_EXISTS || type === ConditionType.MODULE_NOT_EXISTS)
+      && knownModules && typeof condition.value === 'string' && !knownModules.includes(condition.value)) {
+      issues.push(this.error(`${location}.value`, `Unknown module '${condition.value}'`));
+    }
+
+    issues.push(...this.lintPatternOptions(condition, location, 'value'));
+
+    return issues;
+  }
+
+  private static lintOptions(node: Json, location: string): LintIssue[] {
+    return node.options === undefined || this.isObject(node.options)
+      ? []
+      : [this.error(`${location}.options`, 'Must be an object')];
+  }
+
+  private static lintPatternOptions(node: Json, location: string, patternField: string): LintIssue[] {
+    if (node.patternType === undefined) return [];
+
+    if (!this.isEnumValue(PatternType, node.patternType)) {
+      return [this.error(`${location}.patternType`, `Unknown pattern type '${node.patternType}'`)];
+    }
+
+    const pattern = node[patternField];
+
+    if (node.patternType !== PatternType.REGEX || typeof pattern !== 'string') return [];
+
+    try {
+      new RegExp(pattern, typeof node.flags === 'string' ? node.flags : '');
+      return [];
+    } catch (error) {
+      return [this.error(`${location}.${patternField}`, error instanceof Error ? error.message : 'Invalid regular expression')];
+    }
+  }
+
+  private static requireStrings(node: Json, fields: string[], location: string): LintIssue[] {
+    return fields
+      .filter(field => typeof node[field] !== 'string' || node[field] === '')
+      .map(field => this.error(`${location}.${field}`, 'Missing required field'));
+  }
+
+  private static isEnumValue<T extends Record<string, string>>(enumObject: T, value: unknown): value is T[keyof T] {
+    return typeof value === 'string' && Object.values(enumObject).includes(value);
+  }
+
+  private static isObject(value: unknown): value is Json {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static error(location: string, message: string): LintIssue {
+    return { location, message, severity: 'error' };
+  }
+
+  private static warning(location: string, message: string): LintIssue {
+    return { location, message, severity: 'warning' };
+  }
+}
\ No newline at end of file
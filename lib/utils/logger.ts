@@ -45,6 +45,22 @@ export class Logger {
     console.log(color(`    • ${message}`));
   }
 
+  public static diff(patch: string): void {
+    patch.split('\n').forEach(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) {
+        console.log(chalk.bold(`      ${line}`));
+      } else if (line.startsWith('@@')) {
+        console.log(chalk.cyan(`      ${line}`));
+      } else if (line.startsWith('+')) {
+        console.log(chalk.green(`      ${line}`));
+      } else if (line.startsWith('-')) {
+        console.log(chalk.red(`      ${line}`));
+      } else {
+        console.log(chalk.dim(`      ${line}`));
+      }
+    });
+  }
+
   public static newLine(): void {
     console.log('');
   }
@@ -1,17 +1,43 @@
-import { readFileSync, writeFileSync, unlinkSync, existsSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
+import { basename, dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
 import { Logger } from './logger.js';
-import { InstructionLogResource, InstructionLog } from './instructionLog.js';
+import { EnvironmentResource } from './environment.js';
+import { Workspace, FileChange } from './workspace.js';
+import { JsonResource } from './json.js';
+import { TemplateResource, TemplateData } from './template.js';
+import { JsxResource, PropTarget, PropType } from './jsx.js';
+import { GlobResource } from './glob.js';
+import { RegionResource, RegionEditResult } from './region.js';
+import { FileResource } from './file.js';
+import { PathResource } from './path.js';
+import { DiffResource } from './diff.js';
+import { PromptResource } from './prompt.js';
+import { InstructionLogResource, InstructionLog, LoggedCondition } from './instructionLog.js';
 
 export enum ModifierAction {
   CREATE_FILE = 'CREATE_FILE',
   DELETE_FILE = 'DELETE_FILE',
+  RENAME_FILE = 'RENAME_FILE',
+  MOVE_FILE = 'MOVE_FILE',
+  COPY_FILE = 'COPY_FILE',
+  CREATE_DIRECTORY = 'CREATE_DIRECTORY',
+  DELETE_DIRECTORY = 'DELETE_DIRECTORY',
   INSERT_IMPORT = 'INSERT_IMPORT',
+  REMOVE_IMPORT = 'REMOVE_IMPORT',
   INSERT_AFTER = 'INSERT_AFTER',
   INSERT_BEFORE = 'INSERT_BEFORE',
   REPLACE_CONTENT = 'REPLACE_CONTENT',
   APPEND_TO_FILE = 'APPEND_TO_FILE',
-  INSERT_PROP = 'INSERT_PROP'
+  REMOVE_LINES = 'REMOVE_LINES',
+  REPLACE_REGION = 'REPLACE_REGION',
+  APPEND_TO_REGION = 'APPEND_TO_REGION',
+  REMOVE_REGION = 'REMOVE_REGION',
+  INSERT_PROP = 'INSERT_PROP',
+  UPDATE_PROP = 'UPDATE_PROP',
+  REMOVE_PROP = 'REMOVE_PROP',
+  MERGE_JSON = 'MERGE_JSON',
+  SET_JSON_PATH = 'SET_JSON_PATH',
+  REMOVE_JSON_PATH = 'REMOVE_JSON_PATH'
 }
 
 export enum ConditionType {
@@ -21,7 +47,14 @@ export enum ConditionType {
   PATTERN_NOT_EXISTS = 'PATTERN_NOT_EXISTS',
   PATTERN_COUNT = 'PATTERN_COUNT',
   FILE_EXISTS = 'FILE_EXISTS',
-  FILE_NOT_EXISTS = 'FILE_NOT_EXISTS'
+  FILE_NOT_EXISTS = 'FILE_NOT_EXISTS',
+  JSON_PATH_EXISTS = 'JSON_PATH_EXISTS',
+  JSON_PATH_EQUALS = 'JSON_PATH_EQUALS',
+  DEPENDENCY_EXISTS = 'DEPENDENCY_EXISTS',
+  ENV_VAR_SET = 'ENV_VAR_SET',
+  PLATFORM_IS = 'PLATFORM_IS',
+  TOOL_AVAILABLE = 'TOOL_AVAILABLE',
+  NODE_VERSION = 'NODE_VERSION'
 }
 
 export enum ConditionOperator {
@@ -35,31 +68,66 @@ export enum ConditionOperator {
 
 export enum LogicOperator {
   AND = 'AND',
-  OR = 'OR'
+  OR = 'OR',
+  NOT = 'NOT'
 }
 
-export interface Condition {
-  type: ConditionType;
+export enum PatternType {
+  LITERAL = 'LITERAL',
+  REGEX = 'REGEX'
+}
+
+export enum ExistsPolicy {
+  OVERWRITE = 'overwrite',
+  SKIP = 'skip',
+  FAIL = 'fail',
+  APPEND = 'append',
+  PROMPT = 'prompt'
+}
+
+export interface PatternOptions {
+  patternType?: PatternType;
+  flags?: string;
+}
+
+export interface Condition extends PatternOptions {
+  type: ConditionType | string;
   value?: string;
   operator?: ConditionOperator;
   count?: number;
   target?: string;
+  expected?: unknown;
+  options?: Record<string, unknown>;
 }
 
 export interface ConditionGroup {
-  conditions: Condition[];
+  conditions: Array<Condition | ConditionGroup>;
   logic?: LogicOperator;
 }
 
-export interface ModifierInstruction {
+export interface ModifierInstruction extends PatternOptions {
   path: string;
-  action: ModifierAction;
+  action: ModifierAction | string;
+  exclude?: string[];
   content?: string;
+  contentFile?: string;
   pattern?: string;
   replacement?: string;
+  replacementFile?: string;
+  region?: string;
   componentName?: string;
   propName?: string;
   propValue?: string;
+  propType?: PropType;
+  occurrence?: number;
+  jsonPath?: string;
+  value?: unknown;
+  source?: string;
+  destination?: string;
+  newName?: string;
+  onExists?: ExistsPolicy;
+  interpolate?: boolean;
+  options?: Record<string, unknown>;
   condition?: ConditionGroup;
 }
 
@@ -69,47 +137,325 @@ export interface ModifierContext {
   projectName?: string;
   moduleName?: string;
   verbose?: boolean;
+  workspace?: Workspace;
+  variables?: Record<string, string>;
+  allowOutsideRoot?: boolean;
+  interactive?: boolean;
+  plugins?: PluginRegistry;
 }
 
-interface ConditionEvaluationResult {
+export interface ConditionEvaluationResult {
   passed: boolean;
   reason: string;
+  logic?: LogicOperator;
+  children?: ConditionEvaluationResult[];
+}
+
+export type InstructionStatus = 'executed' | 'already-applied' | 'skipped' | 'no-match' | 'failed';
+
+export interface InstructionResult {
+  index: number;
+  action: ModifierAction | string;
+  path: string;
+  status: InstructionStatus;
+  reason?: string;
+  overwritten?: boolean;
+  conditionsPassed?: boolean;
+  conditions?: ConditionEvaluationResult[];
+  changes: FileChange[];
+  error?: string;
+}
+
+export interface InstructionsResult {
+  executed: number;
+  alreadyApplied: number;
+  skipped: number;
+  noMatch: number;
+  results: InstructionResult[];
+  rolledBack: boolean;
+  failure?: InstructionResult;
+}
+
+export interface ModifierHelpers {
+  workspace: Workspace;
+  context: ModifierContext;
+}
+
+export type ActionHandler = (
+  instruction: ModifierInstruction,
+  helpers: ModifierHelpers
+) => boolean | void | Promise<boolean | void>;
+
+export type ConditionEvaluator = (
+  condition: Condition,
+  helpers: ModifierHelpers & { targetPath: string }
+) => boolean | ConditionEvaluationResult | Promise<boolean | ConditionEvaluationResult>;
+
+export interface PluginRegistry {
+  actions: Map<string, ActionHandler>;
+  conditions: Map<string, ConditionEvaluator>;
+}
+
+export interface PluginRegistrar {
+  registerAction: (name: string, handler: ActionHandler) => void;
+  registerCondition: (name: string, evaluator: ConditionEvaluator) => void;
 }
 
 export class ModifierResource {
-  private static ensureDirectory(filePath: string): void {
-    const dir = dirname(filePath);
-    if (!existsSync(dir)) {
-      mkdirSync(dir, { recursive: true });
+  private static readonly PLUGINS_DIR = 'plugins';
+  private static readonly PLUGIN_EXTENSIONS = ['.js', '.mjs'];
+
+  private static readonly customActions = new Map<string, ActionHandler>();
+  private static readonly customConditions = new Map<string, ConditionEvaluator>();
+
+  private static readonly PLATFORM_ALIASES: Record<string, string> = {
+    windows: 'win32',
+    macos: 'darwin',
+    mac: 'darwin'
+  };
+
+  private static readonly SINGLE_TARGET_ACTIONS: string[] = [
+    ModifierAction.CREATE_FILE,
+    ModifierAction.COPY_FILE,
+    ModifierAction.CREATE_DIRECTORY
+  ];
+
+  public static registerAction(name: string, handler: ActionHandler): void {
+    this.validateRegistration(name, ModifierAction, 'action');
+    this.customActions.set(name, handler);
+  }
+
+  public static registerCondition(name: string, evaluator: ConditionEvaluator): void {
+    this.validateRegistration(name, ConditionType, 'condition');
+    this.customConditions.set(name, evaluator);
+  }
+
+  public static isActionRegistered(name: string, plugins?: PluginRegistry): boolean {
+    return this.customActions.has(name) || Boolean(plugins?.actions.has(name));
+  }
+
+  public static isConditionRegistered(name: string, plugins?: PluginRegistry): boolean {
+    return this.customConditions.has(name) || Boolean(plugins?.conditions.has(name));
+  }
+
+  public static createPluginRegistry(): PluginRegistry {
+    return { actions: new Map(), conditions: new Map() };
+  }
+
+  public static listPlugins(modulesDir: string): string[] {
+    const pluginsDir = join(modulesDir, this.PLUGINS_DIR);
+
+    if (!FileResource.isDirectory(pluginsDir)) {
+      return [];
     }
+
+    return FileResource.listFiles(pluginsDir)
+      .filter(file => this.PLUGIN_EXTENSIONS.some(extension => file.endsWith(extension)))
+      .sort();
   }
 
-  private static readFile(filePath: string): string {
-    if (!existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
+  public static async loadPlugins(modulesDir: string, plugins?: PluginRegistry): Promise<string[]> {
+    const files = this.listPlugins(modulesDir);
+    const registrar = plugins ? this.createRegistrar(plugins) : this;
+
+    for (const file of files) {
+      try {
+        const plugin = await import(pathToFileURL(file).href);
+
+        if (typeof plugin.default === 'function') {
+          await plugin.default(registrar);
+        }
+      } catch (error) {
+        throw new Error(`Failed to load plugin ${basename(file)}: ${error instanceof Error ? error.message : 'unknown error'}`);
+      }
     }
-    return readFileSync(filePath, 'utf8');
+
+    return files;
   }
 
-  private static writeFile(filePath: string, content: string): void {
-    this.ensureDirectory(filePath);
-    writeFileSync(filePath, content, 'utf8');
+  private static createRegistrar(plugins: PluginRegistry): PluginRegistrar {
+    return {
+      registerAction: (name, handler) => {
+        this.validateRegistration(name, ModifierAction, 'action');
+        plugins.actions.set(name, handler);
+      },
+      registerCondition: (name, evaluator) => {
+        this.validateRegistration(name, ConditionType, 'condition');
+        plugins.conditions.set(name, evaluator);
+      }
+    };
   }
 
-  private static createFile(filePath: string, content: string): void {
-    this.ensureDirectory(filePath);
-    this.writeFile(filePath, content);
+  private static validateRegistration(name: string, builtIns: Record<string, string>, kind: string): void {
+    if (!/^[A-Z][A-Z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid ${kind} name '${name}', use UPPER_SNAKE_CASE`);
+    }
+
+    if (Object.values(builtIns).includes(name)) {
+      throw new Error(`Cannot override built-in ${kind} '${name}'`);
+    }
   }
 
-  private static deleteFile(filePath: string): void {
-    if (existsSync(filePath)) {
-      unlinkSync(filePath);
+  private static getWorkspace(context: ModifierContext): Workspace {
+    if (!context.workspace) {
+      context.workspace = new Workspace();
     }
+    return context.workspace;
   }
 
-  private static insertImport(filePath: string, importStatement: string): void {
-    const content = this.readFile(filePath);
+  private static async createFile(
+    workspace: Workspace,
+    instruction: ModifierInstruction,
+    context: ModifierContext
+  ): Promise<{ applied: boolean; overwritten: boolean; skipped?: string }> {
+    const { path: filePath, content, contentFile } = instruction;
+    const binaryFile = contentFile && !FileResource.isTextFile(contentFile) ? contentFile : undefined;
+
+    if (!binaryFile && !content) throw new Error('Content is required for CREATE_FILE action');
+
+    const write = (): boolean => {
+      if (binaryFile) return this.copyFile(workspace, binaryFile, filePath);
+
+      workspace.write(filePath, content!);
+      return true;
+    };
+
+    if (!workspace.isFile(filePath)) {
+      return { applied: write(), overwritten: false };
+    }
+
+    const incoming = binaryFile ? workspace.readBuffer(binaryFile) : Buffer.from(content!);
+
+    if (workspace.readBuffer(filePath).equals(incoming)) {
+      return { applied: false, overwritten: false };
+    }
+
+    const policy = await this.resolveExistsPolicy(workspace, instruction, context, incoming);
+
+    switch (policy) {
+      case ExistsPolicy.SKIP:
+        return {
+          applied: false,
+          overwritten: false,
+          skipped: instruction.onExists === ExistsPolicy.PROMPT ? 'The existing file was kept' : 'The file already exists (onExists: skip)'
+        };
+
+      case ExistsPolicy.FAIL:
+        throw new Error(`File already exists: ${filePath}`);
+
+      case ExistsPolicy.APPEND:
+        if (binaryFile) throw new Error(`Binary content cannot be appended to an existing file: ${filePath}`);
+        return { applied: this.appendToFile(workspace, filePath, content!), overwritten: false };
+
+      default:
+        return { applied: write(), overwritten: true };
+    }
+  }
+
+  private static async resolveExistsPolicy(
+    workspace: Workspace,
+    instruction: ModifierInstruction,
+    context: ModifierContext,
+    incoming: Buffer
+  ): Promise<ExistsPolicy> {
+    const policy = instruction.onExists || ExistsPolicy.OVERWRITE;
+
+    if (policy !== ExistsPolicy.PROMPT || workspace.isInMemory()) {
+      return policy;
+    }
+
+    if (context.interactive === false || !PromptResource.isInteractive()) {
+      throw new Error(`File already exists: ${instruction.path} (onExists is 'prompt' but prompts are disabled)`);
+    }
+
+    const { path: filePath } = instruction;
+    const binary = Boolean(instruction.contentFile && !FileResource.isTextFile(instruction.contentFile));
+    const owner = context.moduleName ? `module ${context.moduleName}` : 'this module';
+
+    Logger.newLine();
+    Logger.warning(`${PathResource.relative(context.projectRoot, filePath)} already exists, ${owner} wants to replace it:`);
+    Logger.diff(DiffResource.unified({ path: filePath, before: workspace.readBuffer(filePath), after: incoming }, context.projectRoot));
+
+    return PromptResource.ask({
+      type: 'list',
+      message: 'What should happen to the existing file?',
+      choices: [
+        { name: 'Overwrite it', value: ExistsPolicy.OVERWRITE },
+        { name: 'Keep the existing file', value: ExistsPolicy.SKIP },
+        ...(binary ? [] : [{ name: 'Append the new content', value: ExistsPolicy.APPEND }]),
+        { name: 'Fail this module', value: ExistsPolicy.FAIL }
+      ]
+    });
+  }
+
+  private static deleteFile(workspace: Workspace, filePath: string): boolean {
+    if (workspace.isDirectory(filePath)) {
+      throw new Error(`Not a file: ${filePath}`);
+    }
+
+    if (!workspace.isFile(filePath)) return false;
+
+    workspace.remove(filePath);
+    return true;
+  }
+
+  private static moveFile(workspace: Workspace, filePath: string, destination: string): boolean {
+    if (!workspace.exists(filePath)) {
+      if (workspace.exists(destination)) return false;
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    if (workspace.exists(destination)) {
+      throw new Error(`Destination already exists: ${destination}`);
+    }
+
+    workspace.move(filePath, destination);
+    return true;
+  }
+
+  private static renameFile(workspace: Workspace, filePath: string, newName: string): boolean {
+    if (basename(newName) !== newName) {
+      throw new Error(`New name must be a file name, not a path: ${newName}`);
+    }
+
+    return this.moveFile(workspace, filePath, join(dirname(filePath), newName));
+  }
+
+  private static copyFile(workspace: Workspace, source: string, filePath: string): boolean {
+    if (!workspace.exists(source)) {
+      throw new Error(`Source not found: ${source}`);
+    }
+
+    if (workspace.isFile(source) && workspace.isFile(filePath)
+      && workspace.readBuffer(source).equals(workspace.readBuffer(filePath))) {
+      return false;
+    }
+
+    workspace.copy(source, filePath);
+    return true;
+  }
+
+  private static createDirectory(workspace: Workspace, dirPath: string): boolean {
+    if (workspace.isDirectory(dirPath)) return false;
+
+    workspace.createDirectory(dirPath);
+    return true;
+  }
+
+  private static deleteDirectory(workspace: Workspace, dirPath: string): boolean {
+    if (!workspace.isDirectory(dirPath)) return false;
+
+    workspace.removeDirectory(dirPath);
+    return true;
+  }
+
+  private static insertImport(workspace: Workspace, filePath: string, importStatement: string): boolean {
+    const content = workspace.read(filePath);
     const lines = content.split('\n');
+
+    if (content.includes(importStatement.trim())) {
+      return false;
+    }
     
     let lastImportIndex = -1;
     for (let i = 0; i < lines.length; i++) {
@@ -124,82 +470,295 @@ export class ModifierResource {
       lines.splice(lastImportIndex + 1, 0, importStatement);
     }
 
-    this.writeFile(filePath, lines.join('\n'));
+    workspace.write(filePath, lines.join('\n'));
+    return true;
+  }
+
+  private static removeImport(workspace: Workspace, filePath: string, importStatement: string): boolean {
+    const content = workspace.read(filePath);
+    const statement = importStatement.trim();
+    const index = content.indexOf(statement);
+
+    if (index === -1) {
+      return false;
+    }
+
+    const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+    const lineEnd = content.indexOf('\n', index + statement.length);
+    const rest = content.slice(lineStart, index) + content.slice(index + statement.length, lineEnd === -1 ? content.length : lineEnd);
+
+    const newContent = rest.trim() === ''
+      ? content.slice(0, lineStart) + (lineEnd === -1 ? '' : content.slice(lineEnd + 1))
+      : content.slice(0, index) + content.slice(index + statement.length);
+
+    workspace.write(filePath, newContent);
+    return true;
+  }
+
+  private static createRegExp(pattern: string, flags: string = '', global: boolean = false): RegExp {
+    const normalizedFlags = global && !flags.includes('g') ? `${flags}g` : flags;
+
+    try {
+      return new RegExp(pattern, normalizedFlags);
+    } catch (error) {
+      throw new Error(`Invalid regular expression '${pattern}': ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+
+  private static findPattern(
+    content: string,
+    pattern: string,
+    options: PatternOptions
+  ): { start: number; end: number } | null {
+    if (options.patternType === PatternType.REGEX) {
+      const match = this.createRegExp(pattern, options.flags?.replace('g', '')).exec(content);
+      return match ? { start: match.index, end: match.index + match[0].length } : null;
+    }
+
+    const index = content.indexOf(pattern);
+    return index === -1 ? null : { start: index, end: index + pattern.length };
+  }
+
+  private static countPattern(content: string, pattern: string, options: PatternOptions): number {
+    if (options.patternType === PatternType.REGEX) {
+      return content.match(this.createRegExp(pattern, options.flags, true))?.length || 0;
+    }
+
+    return content.split(pattern).length - 1;
+  }
+
+  private static getLineIndex(content: string, position: number): number {
+    return content.slice(0, position).split('\n').length - 1;
   }
 
-  private static insertAfter(filePath: string, pattern: string, content: string): void {
-    const fileContent = this.readFile(filePath);
+  private static insertAfter(
+    workspace: Workspace,
+    filePath: string,
+    pattern: string,
+    content: string,
+    options: PatternOptions
+  ): boolean {
+    const fileContent = workspace.read(filePath);
     const lines = fileContent.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes(pattern)) {
-        lines.splice(i + 1, 0, content);
-        break;
-      }
+    const match = this.findPattern(fileContent, pattern, options);
+
+    if (!match) {
+      throw new Error(`Pattern '${pattern}' not found`);
+    }
+
+    const lineIndex = this.getLineIndex(fileContent, Math.max(match.start, match.end - 1));
+
+    if (this.linesMatch(lines, lineIndex + 1, content)) {
+      return false;
     }
 
-    this.writeFile(filePath, lines.join('\n'));
+    lines.splice(lineIndex + 1, 0, content);
+    workspace.write(filePath, lines.join('\n'));
+    return true;
   }
 
-  private static insertBefore(filePath: string, pattern: string, content: string): void {
-    const fileContent = this.readFile(filePath);
+  private static insertBefore(
+    workspace: Workspace,
+    filePath: string,
+    pattern: string,
+    content: string,
+    options: PatternOptions
+  ): boolean {
+    const fileContent = workspace.read(filePath);
     const lines = fileContent.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes(pattern)) {
-        lines.splice(i, 0, content);
-        break;
-      }
+    const match = this.findPattern(fileContent, pattern, options);
+
+    if (!match) {
+      throw new Error(`Pattern '${pattern}' not found`);
+    }
+
+    const lineIndex = this.getLineIndex(fileContent, match.start);
+    const contentLines = content.split('\n').length;
+
+    if (this.linesMatch(lines, lineIndex - contentLines, content)) {
+      return false;
+    }
+
+    lines.splice(lineIndex, 0, content);
+    workspace.write(filePath, lines.join('\n'));
+    return true;
+  }
+
+  private static linesMatch(lines: string[], startIndex: number, content: string): boolean {
+    if (startIndex < 0) return false;
+
+    const contentLines = content.split('\n');
+    return lines.slice(startIndex, startIndex + contentLines.length).join('\n') === content;
+  }
+
+  private static replaceContent(
+    workspace: Workspace,
+    filePath: string,
+    pattern: string,
+    replacement: string,
+    options: PatternOptions
+  ): boolean {
+    const content = workspace.read(filePath);
+
+    if (!this.findPattern(content, pattern, options)) {
+      if (replacement === '' || content.includes(replacement)) return false;
+      throw new Error(`Pattern '${pattern}' not found`);
     }
 
-    this.writeFile(filePath, lines.join('\n'));
+    const newContent = options.patternType === PatternType.REGEX
+      ? content.replace(this.createRegExp(pattern, options.flags, true), replacement)
+      : content.split(pattern).join(replacement);
+
+    if (newContent === content) return false;
+
+    workspace.write(filePath, newContent);
+    return true;
   }
 
-  private static replaceContent(filePath: string, pattern: string, replacement: string): void {
-    const content = this.readFile(filePath);
-    const newContent = content.split(pattern).join(replacement);
-    this.writeFile(filePath, newContent);
+  private static appendToFile(workspace: Workspace, filePath: string, content: string): boolean {
+    const currentContent = workspace.read(filePath);
+
+    if (currentContent.trimEnd().endsWith(content.trimEnd())) {
+      return false;
+    }
+
+    workspace.write(filePath, currentContent + '\n' + content);
+    return true;
   }
 
-  private static appendToFile(filePath: string, content: string): void {
-    const currentContent = this.readFile(filePath);
-    this.writeFile(filePath, currentContent + '\n' + content);
+  private static removeLines(
+    workspace: Workspace,
+    filePath: string,
+    pattern: string,
+    options: PatternOptions,
+    region?: string
+  ): boolean {
+    const regex = options.patternType === PatternType.REGEX
+      ? this.createRegExp(pattern, options.flags?.replace('g', ''))
+      : null;
+    const matches = (line: string) => regex ? regex.test(line) : line.includes(pattern);
+
+    return this.applyRegionEdit(workspace, filePath, content => RegionResource.removeLines(content, matches, region));
   }
 
-  private static insertProp(
+  private static applyRegionEdit(
+    workspace: Workspace,
     filePath: string,
-    componentName: string,
-    propName: string,
-    propValue?: string
-  ): void {
-    const content = this.readFile(filePath);
-    const componentPattern = new RegExp(`<${componentName}([^>]*)(\\/)?>`, 'g');
-    
-    const newContent = content.replace(componentPattern, (match, props, selfClosing) => {
-      const hasSelfClosing = selfClosing === '/';
-      const trimmedProps = props.trim();
-      
-      const newProp = propValue ? `${propName}={${propValue}}` : propName;
-      
-      if (trimmedProps) {
-        return hasSelfClosing 
-          ? `<${componentName}${props} ${newProp} />`
-          : `<${componentName}${props} ${newProp}>`;
-      }
-      
-      return hasSelfClosing
-        ? `<${componentName} ${newProp} />`
-        : `<${componentName} ${newProp}>`;
-    });
+    edit: (content: string) => RegionEditResult
+  ): boolean {
+    const result = edit(workspace.read(filePath));
+    if (!result.changed) return false;
+
+    workspace.write(filePath, result.content);
+    return true;
+  }
+
+  private static insertProp(workspace: Workspace, filePath: string, target: PropTarget): boolean {
+    const result = JsxResource.insertProp(workspace.read(filePath), filePath, target);
+    if (!result.changed) return false;
+
+    workspace.write(filePath, result.content);
+    return true;
+  }
+
+  private static updateProp(workspace: Workspace, filePath: string, target: PropTarget): boolean {
+    const result = JsxResource.updateProp(workspace.read(filePath), filePath, target);
+    if (!result.changed) return false;
+
+    workspace.write(filePath, result.content);
+    return true;
+  }
+
+  private static removeProp(workspace: Workspace, filePath: string, target: PropTarget): boolean {
+    const result = JsxResource.removeProp(workspace.read(filePath), filePath, target);
+    if (!result.changed) return false;
+
+    workspace.write(filePath, result.content);
+    return true;
+  }
+
+  private static mergeJson(workspace: Workspace, filePath: string, value: unknown): boolean {
+    return this.applyJsonEdit(workspace, filePath, content => JsonResource.merge(content, value));
+  }
+
+  private static setJsonPath(workspace: Workspace, filePath: string, jsonPath: string, value: unknown): boolean {
+    return this.applyJsonEdit(workspace, filePath, content => JsonResource.set(content, jsonPath, value));
+  }
 
-    this.writeFile(filePath, newContent);
+  private static removeJsonPath(workspace: Workspace, filePath: string, jsonPath: string): boolean {
+    return this.applyJsonEdit(workspace, filePath, content => JsonResource.remove(content, jsonPath));
   }
 
-  private static evaluateCondition(
+  private static applyJsonEdit(workspace: Workspace, filePath: string, edit: (content: string) => string): boolean {
+    const content = workspace.read(filePath);
+    const updated = edit(content);
+
+    if (updated === content || JsonResource.equals(JsonResource.parse(content, filePath), JsonResource.parse(updated, filePath))) {
+      return false;
+    }
+
+    workspace.write(filePath, updated);
+    return true;
+  }
+
+  private static async evaluateCondition(
+    condition: Condition,
+    context: ModifierContext,
+    targetPath: string
+  ): Promise<ConditionEvaluationResult> {
+    if (condition.type === ConditionType.TOOL_AVAILABLE) {
+      const tool = condition.value || '';
+      const status = await EnvironmentResource.checkCommand(tool);
+      return {
+        passed: status.installed,
+        reason: status.installed 
+          ? `Tool '${tool}' is available${status.version ? ` (v${status.version})` : ''}`
+          : `Tool '${tool}' is not available`
+      };
+    }
+
+    const evaluator = this.getConditionEvaluator(condition, context);
+
+    if (!evaluator) {
+      return this.evaluateBuiltInCondition(condition, context, targetPath);
+    }
+
+    try {
+      const result = await evaluator(condition, { workspace: this.getWorkspace(context), context, targetPath });
+      return typeof result === 'boolean'
+        ? { passed: result, reason: `${condition.type} ${result ? 'passed' : 'failed'}` }
+        : result;
+    } catch (error) {
+      return {
+        passed: false,
+        reason: `${condition.type} failed: ${error instanceof Error ? error.message : 'unknown error'}`
+      };
+    }
+  }
+
+  private static evaluateConditionSync(
     condition: Condition,
     context: ModifierContext,
     targetPath: string
   ): ConditionEvaluationResult {
+    if (condition.type === ConditionType.TOOL_AVAILABLE || this.getConditionEvaluator(condition, context)) {
+      throw new Error(`Condition '${condition.type}' can only be evaluated by shouldExecuteInstructionAsync`);
+    }
+
+    return this.evaluateBuiltInCondition(condition, context, targetPath);
+  }
+
+  private static getConditionEvaluator(condition: Condition, context: ModifierContext): ConditionEvaluator | undefined {
+    return context.plugins?.conditions.get(condition.type) || this.customConditions.get(condition.type);
+  }
+
+  private static evaluateBuiltInCondition(
+    condition: Condition,
+    context: ModifierContext,
+    targetPath: string
+  ): ConditionEvaluationResult {
+    const workspace = this.getWorkspace(context);
+
     switch (condition.type) {
       case ConditionType.MODULE_EXISTS: {
         const moduleName = condition.value || '';
@@ -223,106 +782,231 @@ export class ModifierResource {
         };
       }
 
-      case ConditionType.PATTERN_EXISTS: {
+      case ConditionType.PATTERN_EXISTS: {
+        try {
+          const target = this.resolveConditionTarget(condition.target, context) || targetPath;
+          if (!workspace.exists(target)) {
+            return {
+              passed: false,
+              reason: `File '${target}' does not exist`
+            };
+          }
+          const content = workspace.read(target);
+          const pattern = condition.value || '';
+          const passed = this.findPattern(content, pattern, condition) !== null;
+          return {
+            passed,
+            reason: passed 
+              ? `Pattern '${pattern}' found in file`
+              : `Pattern '${pattern}' not found in file`
+          };
+        } catch (error) {
+          return {
+            passed: false,
+            reason: `Error reading file: ${error instanceof Error ? error.message : 'unknown error'}`
+          };
+        }
+      }
+
+      case ConditionType.PATTERN_NOT_EXISTS: {
+        try {
+          const target = this.resolveConditionTarget(condition.target, context) || targetPath;
+          if (!workspace.exists(target)) {
+            return {
+              passed: true,
+              reason: `File '${target}' does not exist`
+            };
+          }
+          const content = workspace.read(target);
+          const pattern = condition.value || '';
+          const passed = this.findPattern(content, pattern, condition) === null;
+          return {
+            passed,
+            reason: passed 
+              ? `Pattern '${pattern}' not found in file`
+              : `Pattern '${pattern}' found in file`
+          };
+        } catch (error) {
+          return {
+            passed: true,
+            reason: `Error reading file (treated as not exists): ${error instanceof Error ? error.message : 'unknown error'}`
+          };
+        }
+      }
+
+      case ConditionType.PATTERN_COUNT: {
+        try {
+          const target = this.resolveConditionTarget(condition.target, context) || targetPath;
+          if (!workspace.exists(target)) {
+            return {
+              passed: false,
+              reason: `File '${target}' does not exist`
+            };
+          }
+          const content = workspace.read(target);
+          const pattern = condition.value || '';
+          const count = this.countPattern(content, pattern, condition);
+          const expectedCount = condition.count || 0;
+          const operator = condition.operator || ConditionOperator.EQUALS;
+          const passed = this.compareCount(count, operator, expectedCount);
+          return {
+            passed,
+            reason: passed 
+              ? `Pattern count ${count} ${this.getOperatorSymbol(operator)} ${expectedCount}`
+              : `Pattern count ${count} does not match ${this.getOperatorSymbol(operator)} ${expectedCount}`
+          };
+        } catch (error) {
+          return {
+            passed: false,
+            reason: `Error reading file: ${error instanceof Error ? error.message : 'unknown error'}`
+          };
+        }
+      }
+
+      case ConditionType.FILE_EXISTS: {
+        const target = this.resolveConditionTarget(condition.target || condition.value, context) || '';
+        const passed = workspace.exists(target);
+        return {
+          passed,
+          reason: passed 
+            ? `File '${target}' exists`
+            : `File '${target}' does not exist`
+        };
+      }
+
+      case ConditionType.FILE_NOT_EXISTS: {
+        const target = this.resolveConditionTarget(condition.target || condition.value, context) || '';
+        const passed = !workspace.exists(target);
+        return {
+          passed,
+          reason: passed 
+            ? `File '${target}' does not exist`
+            : `File '${target}' exists`
+        };
+      }
+
+      case ConditionType.JSON_PATH_EXISTS: {
         try {
-          const target = condition.target || targetPath;
-          if (!existsSync(target)) {
+          const target = this.resolveConditionTarget(condition.target, context) || targetPath;
+          if (!workspace.exists(target)) {
             return {
               passed: false,
               reason: `File '${target}' does not exist`
             };
           }
-          const content = this.readFile(target);
-          const pattern = condition.value || '';
-          const passed = content.includes(pattern);
+          const jsonPath = condition.value || '';
+          const passed = JsonResource.has(workspace.read(target), jsonPath);
           return {
             passed,
             reason: passed 
-              ? `Pattern '${pattern}' found in file`
-              : `Pattern '${pattern}' not found in file`
+              ? `JSON path '${jsonPath}' exists`
+              : `JSON path '${jsonPath}' does not exist`
           };
         } catch (error) {
           return {
             passed: false,
-            reason: `Error reading file: ${error instanceof Error ? error.message : 'unknown error'}`
+            reason: `Error reading JSON: ${error instanceof Error ? error.message : 'unknown error'}`
           };
         }
       }
 
-      case ConditionType.PATTERN_NOT_EXISTS: {
+      case ConditionType.JSON_PATH_EQUALS: {
         try {
-          const target = condition.target || targetPath;
-          if (!existsSync(target)) {
+          const target = this.resolveConditionTarget(condition.target, context) || targetPath;
+          if (!workspace.exists(target)) {
             return {
-              passed: true,
+              passed: false,
               reason: `File '${target}' does not exist`
             };
           }
-          const content = this.readFile(target);
-          const pattern = condition.value || '';
-          const passed = !content.includes(pattern);
+          const jsonPath = condition.value || '';
+          const actual = JsonResource.get(workspace.read(target), jsonPath);
+          const passed = JsonResource.equals(actual, condition.expected);
           return {
             passed,
             reason: passed 
-              ? `Pattern '${pattern}' not found in file`
-              : `Pattern '${pattern}' found in file`
+              ? `JSON path '${jsonPath}' equals ${JSON.stringify(condition.expected)}`
+              : `JSON path '${jsonPath}' is ${JSON.stringify(actual) ?? 'undefined'}, expected ${JSON.stringify(condition.expected)}`
           };
         } catch (error) {
           return {
-            passed: true,
-            reason: `Error reading file (treated as not exists): ${error instanceof Error ? error.message : 'unknown error'}`
+            passed: false,
+            reason: `Error reading JSON: ${error instanceof Error ? error.message : 'unknown error'}`
           };
         }
       }
 
-      case ConditionType.PATTERN_COUNT: {
+      case ConditionType.DEPENDENCY_EXISTS: {
         try {
-          const target = condition.target || targetPath;
-          if (!existsSync(target)) {
+          const target = this.resolveConditionTarget(condition.target, context) || join(context.projectRoot, 'package.json');
+          if (!workspace.exists(target)) {
             return {
               passed: false,
               reason: `File '${target}' does not exist`
             };
           }
-          const content = this.readFile(target);
-          const pattern = condition.value || '';
-          const count = content.split(pattern).length - 1;
-          const expectedCount = condition.count || 0;
-          const operator = condition.operator || ConditionOperator.EQUALS;
-          const passed = this.compareCount(count, operator, expectedCount);
+          const dependency = condition.value || '';
+          const packageJson = JsonResource.parse(workspace.read(target), target) as {
+            dependencies?: Record<string, string>;
+            devDependencies?: Record<string, string>;
+          };
+          const version = packageJson.dependencies?.[dependency] ?? packageJson.devDependencies?.[dependency];
+          const passed = version !== undefined;
           return {
             passed,
             reason: passed 
-              ? `Pattern count ${count} ${this.getOperatorSymbol(operator)} ${expectedCount}`
-              : `Pattern count ${count} does not match ${this.getOperatorSymbol(operator)} ${expectedCount}`
+              ? `Dependency '${dependency}' found (${version})`
+              : `Dependency '${dependency}' not found`
           };
         } catch (error) {
           return {
             passed: false,
-            reason: `Error reading file: ${error instanceof Error ? error.message : 'unknown error'}`
+            reason: `Error reading package.json: ${error instanceof Error ? error.message : 'unknown error'}`
           };
         }
       }
 
-      case ConditionType.FILE_EXISTS: {
-        const target = condition.target || condition.value || '';
-        const passed = existsSync(target);
+      case ConditionType.ENV_VAR_SET: {
+        const name = condition.value || '';
+        const actual = process.env[name];
+        const passed = condition.expected === undefined
+          ? actual !== undefined && actual !== ''
+          : actual === String(condition.expected);
         return {
           passed,
           reason: passed 
-            ? `File '${target}' exists`
-            : `File '${target}' does not exist`
+            ? `Environment variable '${name}' is set`
+            : condition.expected === undefined
+              ? `Environment variable '${name}' is not set`
+              : `Environment variable '${name}' is not '${condition.expected}'`
         };
       }
 
-      case ConditionType.FILE_NOT_EXISTS: {
-        const target = condition.target || condition.value || '';
-        const passed = !existsSync(target);
+      case ConditionType.PLATFORM_IS: {
+        const platforms = (condition.value || '')
+          .split(',')
+          .map(platform => platform.trim().toLowerCase())
+          .map(platform => this.PLATFORM_ALIASES[platform] || platform);
+        const passed = platforms.includes(process.platform);
         return {
           passed,
           reason: passed 
-            ? `File '${target}' does not exist`
-            : `File '${target}' exists`
+            ? `Platform is '${process.platform}'`
+            : `Platform '${process.platform}' is not ${platforms.join(' or ')}`
+        };
+      }
+
+      case ConditionType.NODE_VERSION: {
+        const expected = condition.value || '0.0.0';
+        const actual = process.versions.node;
+        const operator = condition.operator || ConditionOperator.GREATER_OR_EQUAL;
+        const comparison = EnvironmentResource.compareVersions(actual, expected);
+        const passed = this.compareCount(comparison, operator, 0);
+        return {
+          passed,
+          reason: passed 
+            ? `Node.js v${actual} ${this.getOperatorSymbol(operator)} v${expected}`
+            : `Node.js v${actual} does not match ${this.getOperatorSymbol(operator)} v${expected}`
         };
       }
 
@@ -371,21 +1055,79 @@ export class ModifierResource {
     }
   }
 
-  private static evaluateConditionGroup(
+  public static isConditionGroup(node: Condition | ConditionGroup): node is ConditionGroup {
+    return Array.isArray((node as ConditionGroup).conditions);
+  }
+
+  private static async evaluateConditionGroup(
+    group: ConditionGroup,
+    context: ModifierContext,
+    targetPath: string
+  ): Promise<{ passed: boolean; results: ConditionEvaluationResult[] }> {
+    const results: ConditionEvaluationResult[] = [];
+
+    for (const node of group.conditions) {
+      results.push(this.isConditionGroup(node)
+        ? this.summarizeGroup(node, await this.evaluateConditionGroup(node, context, targetPath))
+        : await this.evaluateCondition(node, context, targetPath));
+    }
+
+    return { passed: this.combineResults(group.logic || LogicOperator.AND, results), results };
+  }
+
+  private static evaluateConditionGroupSync(
     group: ConditionGroup,
     context: ModifierContext,
     targetPath: string
   ): { passed: boolean; results: ConditionEvaluationResult[] } {
+    const results = group.conditions.map(node => this.isConditionGroup(node)
+      ? this.summarizeGroup(node, this.evaluateConditionGroupSync(node, context, targetPath))
+      : this.evaluateConditionSync(node, context, targetPath));
+
+    return { passed: this.combineResults(group.logic || LogicOperator.AND, results), results };
+  }
+
+  private static summarizeGroup(
+    group: ConditionGroup,
+    nested: { passed: boolean; results: ConditionEvaluationResult[] }
+  ): ConditionEvaluationResult {
     const logic = group.logic || LogicOperator.AND;
-    const results = group.conditions.map(condition => 
-      this.evaluateCondition(condition, context, targetPath)
-    );
+    const passedCount = nested.results.filter(r => r.passed).length;
+
+    return {
+      passed: nested.passed,
+      reason: `${logic} group: ${passedCount} of ${nested.results.length} passed`,
+      logic,
+      children: nested.results
+    };
+  }
+
+  private static combineResults(logic: LogicOperator, results: ConditionEvaluationResult[]): boolean {
+    switch (logic) {
+      case LogicOperator.OR:
+        return results.some(r => r.passed);
+      case LogicOperator.NOT:
+        return !results.every(r => r.passed);
+      default:
+        return results.every(r => r.passed);
+    }
+  }
+
+  public static logConditionResults(results: LoggedCondition[], prefix: string = '', depth: number = 1): void {
+    const indent = '  '.repeat(depth);
+
+    results.forEach((result, idx) => {
+      const symbol = result.passed ? '✓' : '✗';
+      const color = result.passed ? 'success' : 'error';
+      const label = result.children ? 'Group' : 'Condition';
+      const number = `${prefix}${idx + 1}`;
 
-    const passed = logic === LogicOperator.AND
-      ? results.every(r => r.passed)
-      : results.some(r => r.passed);
+      Logger.item(`${indent}${symbol} ${label} #${number}: ${result.reason}`, color);
 
-    return { passed, results };
+      if (result.children) {
+        this.logConditionResults(result.children, `${number}.`, depth + 1);
+      }
+    });
   }
 
   public static shouldExecuteInstruction(
@@ -396,7 +1138,28 @@ export class ModifierResource {
       return { should: true };
     }
 
-    const evaluation = this.evaluateConditionGroup(
+    const evaluation = this.evaluateConditionGroupSync(
+      instruction.condition,
+      context,
+      instruction.path
+    );
+
+    return { 
+      should: evaluation.passed, 
+      results: evaluation.results,
+      logic: instruction.condition.logic || LogicOperator.AND
+    };
+  }
+
+  public static async shouldExecuteInstructionAsync(
+    instruction: ModifierInstruction,
+    context: ModifierContext
+  ): Promise<{ should: boolean; results?: ConditionEvaluationResult[]; logic?: LogicOperator }> {
+    if (!instruction.condition) {
+      return { should: true };
+    }
+
+    const evaluation = await this.evaluateConditionGroup(
       instruction.condition,
       context,
       instruction.path
@@ -409,11 +1172,146 @@ export class ModifierResource {
     };
   }
 
+  private static loadContentFiles(
+    workspace: Workspace,
+    instruction: ModifierInstruction,
+    context: ModifierContext
+  ): ModifierInstruction {
+    const { contentFile, replacementFile } = instruction;
+
+    if (contentFile) this.assertInsideRoot(contentFile, context, 'Content file');
+    if (replacementFile) this.assertInsideRoot(replacementFile, context, 'Replacement file');
+
+    if (contentFile && instruction.content !== undefined) {
+      throw new Error('Use either content or contentFile, not both');
+    }
+
+    if (replacementFile && instruction.replacement !== undefined) {
+      throw new Error('Use either replacement or replacementFile, not both');
+    }
+
+    if (contentFile && !FileResource.isTextFile(contentFile) && instruction.action !== ModifierAction.CREATE_FILE) {
+      throw new Error(`Binary content files can only be used with CREATE_FILE action: ${contentFile}`);
+    }
+
+    if (replacementFile && !FileResource.isTextFile(replacementFile)) {
+      throw new Error(`Replacement file must be a text file: ${replacementFile}`);
+    }
+
+    const isSnippet = instruction.action !== ModifierAction.CREATE_FILE;
+    const read = (filePath: string, snippet: boolean) => {
+      const text = this.readContentFile(workspace, filePath, snippet);
+      return instruction.interpolate ? TemplateResource.render(text, this.getTemplateData(context)) : text;
+    };
+
+    return {
+      ...instruction,
+      content: contentFile && FileResource.isTextFile(contentFile)
+        ? read(contentFile, isSnippet)
+        : instruction.content,
+      replacement: replacementFile
+        ? read(replacementFile, true)
+        : instruction.replacement
+    };
+  }
+
+  private static readContentFile(workspace: Workspace, filePath: string, isSnippet: boolean): string {
+    if (!workspace.isFile(filePath)) {
+      throw new Error(`Content file not found: ${filePath}`);
+    }
+
+    const content = workspace.read(filePath);
+    return isSnippet ? content.replace(/\r?\n$/, '') : content;
+  }
+
+  private static getTemplateData(context: ModifierContext): TemplateData {
+    return {
+      variables: {
+        ...context.variables,
+        projectName: context.projectName,
+        moduleName: context.moduleName
+      },
+      modules: context.selectedModules
+    };
+  }
+
+  private static interpolateValue<T>(value: T, data: TemplateData): T {
+    if (typeof value === 'string') {
+      return TemplateResource.render(value, data) as T;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.interpolateValue(item, data)) as T;
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.interpolateValue(item, data)])
+      ) as T;
+    }
+
+    return value;
+  }
+
+  private static interpolateInstruction(
+    instruction: ModifierInstruction,
+    context: ModifierContext
+  ): ModifierInstruction {
+    const data = this.getTemplateData(context);
+    const render = (text?: string) => text === undefined ? undefined : TemplateResource.render(text, data);
+    const renderContent = (text?: string) => {
+      if (instruction.interpolate === false) return text;
+
+      try {
+        return render(text);
+      } catch (error) {
+        throw new Error(`${error instanceof Error ? error.message : 'Invalid template'}, set interpolate to false to keep the text as is`);
+      }
+    };
+
+    return {
+      ...instruction,
+      path: TemplateResource.render(instruction.path, data),
+      exclude: instruction.exclude?.map(pattern => TemplateResource.render(pattern, data)),
+      content: renderContent(instruction.content),
+      pattern: renderContent(instruction.pattern),
+      replacement: renderContent(instruction.replacement),
+      region: render(instruction.region),
+      componentName: render(instruction.componentName),
+      propName: render(instruction.propName),
+      propValue: render(instruction.propValue),
+      jsonPath: render(instruction.jsonPath),
+      source: render(instruction.source),
+      destination: render(instruction.destination),
+      newName: render(instruction.newName),
+      value: this.interpolateValue(instruction.value, data),
+      options: this.interpolateValue(instruction.options, data),
+      condition: instruction.condition && this.interpolateConditionGroup(instruction.condition, data)
+    };
+  }
+
+  private static interpolateConditionGroup(group: ConditionGroup, data: TemplateData): ConditionGroup {
+    const render = (text?: string) => text === undefined ? undefined : TemplateResource.render(text, data);
+
+    return {
+      ...group,
+      conditions: group.conditions.map(node => this.isConditionGroup(node)
+        ? this.interpolateConditionGroup(node, data)
+        : {
+          ...node,
+          value: render(node.value),
+          target: render(node.target),
+          expected: this.interpolateValue(node.expected, data),
+          options: this.interpolateValue(node.options, data)
+        })
+    };
+  }
+
   private static async saveInstructionLog(
     instruction: ModifierInstruction,
     context: ModifierContext,
     instructionIndex: number,
-    status: 'success' | 'skipped' | 'failed',
+    status: InstructionLog['status'],
     error?: string,
     conditionResults?: ConditionEvaluationResult[]
   ): Promise<string> {
@@ -437,12 +1335,27 @@ export class ModifierResource {
       instruction: {
         path: instruction.path,
         action: instruction.action,
+        exclude: instruction.exclude,
         content: instruction.content,
+        contentFile: instruction.contentFile,
         pattern: instruction.pattern,
         replacement: instruction.replacement,
+        replacementFile: instruction.replacementFile,
+        region: instruction.region,
         componentName: instruction.componentName,
         propName: instruction.propName,
-        propValue: instruction.propValue
+        propValue: instruction.propValue,
+        propType: instruction.propType,
+        occurrence: instruction.occurrence,
+        patternType: instruction.patternType,
+        flags: instruction.flags,
+        jsonPath: instruction.jsonPath,
+        value: instruction.value,
+        source: instruction.source,
+        destination: instruction.destination,
+        newName: instruction.newName,
+        onExists: instruction.onExists,
+        options: instruction.options
       },
       status,
       error,
@@ -458,8 +1371,150 @@ export class ModifierResource {
     context: ModifierContext,
     instructionIndex: number
   ): Promise<boolean> {
+    const results = await this.applyInstruction(instruction, context, instructionIndex);
+    const failure = results.find(result => result.status === 'failed');
+
+    if (failure) {
+      throw new Error(failure.error);
+    }
+
+    return results.some(result => result.status === 'executed' || result.status === 'already-applied');
+  }
+
+  public static async applyInstruction(
+    rawInstruction: ModifierInstruction,
+    context: ModifierContext,
+    instructionIndex: number
+  ): Promise<InstructionResult[]> {
     const verbose = context.verbose || false;
-    
+    const workspace = this.getWorkspace(context);
+
+    workspace.takeChanges();
+
+    let instruction: ModifierInstruction;
+    let targets: string[];
+
+    try {
+      instruction = this.loadContentFiles(workspace, this.interpolateInstruction(rawInstruction, context), context);
+      this.assertPathsInsideRoot(instruction, context);
+
+      if (!this.isGlobPath(workspace, instruction)) {
+        return [await this.applyToTarget(instruction, context, instructionIndex)];
+      }
+
+      targets = this.resolveTargets(workspace, instruction);
+      targets.forEach(target => this.assertPathsInsideRoot({ ...instruction, path: target }, context));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'unknown error';
+
+      if (verbose) {
+        Logger.newLine();
+        Logger.item(`Instruction #${instructionIndex + 1}:`, 'info');
+        Logger.item(`Status: FAILED - ${errorMessage}`, 'error');
+      }
+
+      return [{
+        index: instructionIndex,
+        action: rawInstruction.action,
+        path: rawInstruction.path,
+        status: 'failed',
+        error: errorMessage,
+        changes: []
+      }];
+    }
+
+    if (targets.length === 0) {
+      if (verbose) {
+        Logger.newLine();
+        Logger.item(`Instruction #${instructionIndex + 1}:`, 'info');
+        Logger.listItem(`Action: ${instruction.action}`);
+        Logger.listItem(`Target: ${instruction.path}`);
+        Logger.item('Result: NO MATCHES', 'warning');
+
+        const hash = await this.saveInstructionLog(instruction, context, instructionIndex, 'no-match');
+
+        Logger.item(`Log Hash: ${hash}`, 'dim');
+      }
+
+      return [{
+        index: instructionIndex,
+        action: instruction.action,
+        path: instruction.path,
+        status: 'no-match',
+        changes: []
+      }];
+    }
+
+    const results: InstructionResult[] = [];
+
+    for (const target of targets) {
+      const result = await this.applyToTarget({ ...instruction, path: target }, context, instructionIndex);
+      results.push(result);
+
+      if (result.status === 'failed') break;
+    }
+
+    return results;
+  }
+
+  private static assertPathsInsideRoot(instruction: ModifierInstruction, context: ModifierContext): void {
+    const { path: filePath, destination, source, newName, condition } = instruction;
+
+    const isGlob = this.isGlobPath(this.getWorkspace(context), instruction);
+    this.assertInsideRoot(isGlob ? GlobResource.getBase(filePath) : filePath, context, 'Path');
+
+    if (destination) this.assertInsideRoot(destination, context, 'Destination');
+    if (source) this.assertInsideRoot(source, context, 'Source');
+    if (newName) this.assertInsideRoot(join(dirname(filePath), newName), context, 'New name');
+
+    if (condition) {
+      this.assertConditionInsideRoot(condition, context);
+    }
+  }
+
+  private static assertConditionInsideRoot(node: Condition | ConditionGroup, context: ModifierContext): void {
+    if (this.isConditionGroup(node)) {
+      node.conditions.forEach(child => this.assertConditionInsideRoot(child, context));
+      return;
+    }
+
+    const isFileCondition = node.type === ConditionType.FILE_EXISTS || node.type === ConditionType.FILE_NOT_EXISTS;
+    const target = this.resolveConditionTarget(node.target || (isFileCondition ? node.value : undefined), context);
+
+    if (target) {
+      this.assertInsideRoot(target, context, `Condition ${node.type} target`);
+    }
+  }
+
+  private static assertInsideRoot(filePath: string, context: ModifierContext, field: string): void {
+    if (context.allowOutsideRoot || PathResource.isInside(context.projectRoot, filePath)) return;
+
+    throw new Error(`${field} '${filePath}' is outside the project root '${context.projectRoot}'`);
+  }
+
+  private static resolveConditionTarget(target: string | undefined, context: ModifierContext): string | undefined {
+    return target ? resolve(context.projectRoot, target) : undefined;
+  }
+
+  private static isGlobPath(workspace: Workspace, instruction: ModifierInstruction): boolean {
+    return GlobResource.isGlob(instruction.path)
+      && !this.SINGLE_TARGET_ACTIONS.includes(instruction.action)
+      && !workspace.exists(instruction.path);
+  }
+
+  private static resolveTargets(workspace: Workspace, instruction: ModifierInstruction): string[] {
+    const files = workspace.listFiles(GlobResource.getBase(instruction.path));
+    return GlobResource.filter(files, instruction.path, instruction.exclude);
+  }
+
+  private static async applyToTarget(
+    instruction: ModifierInstruction,
+    context: ModifierContext,
+    instructionIndex: number
+  ): Promise<InstructionResult> {
+    const verbose = context.verbose || false;
+    const workspace = this.getWorkspace(context);
+
     if (verbose) {
       Logger.newLine();
       Logger.item(`Instruction #${instructionIndex + 1}:`, 'info');
@@ -467,15 +1522,20 @@ export class ModifierResource {
       Logger.listItem(`Target: ${instruction.path}`);
     }
 
-    const evaluation = this.shouldExecuteInstruction(instruction, context);
+    const evaluation = await this.shouldExecuteInstructionAsync(instruction, context);
+    const result: InstructionResult = {
+      index: instructionIndex,
+      action: instruction.action,
+      path: instruction.path,
+      status: 'skipped',
+      conditionsPassed: instruction.condition ? evaluation.should : undefined,
+      conditions: evaluation.results,
+      changes: []
+    };
 
     if (instruction.condition && verbose) {
       Logger.listItem(`Conditions (${evaluation.logic || 'AND'} logic):`);
-      evaluation.results?.forEach((result, idx) => {
-        const symbol = result.passed ? '✓' : '✗';
-        const color = result.passed ? 'success' : 'error';
-        Logger.item(`  ${symbol} Condition #${idx + 1}: ${result.reason}`, color);
-      });
+      this.logConditionResults(evaluation.results || []);
     }
 
     if (!evaluation.should) {
@@ -493,7 +1553,7 @@ export class ModifierResource {
         
         Logger.item(`Log Hash: ${hash}`, 'dim');
       }
-      return false;
+      return result;
     }
 
     if (verbose) {
@@ -504,66 +1564,166 @@ export class ModifierResource {
       path: filePath, 
       action, 
       content, 
+      contentFile,
       pattern, 
       replacement, 
+      region,
       componentName, 
       propName, 
-      propValue 
+      propValue,
+      propType,
+      occurrence,
+      jsonPath,
+      value,
+      source,
+      destination,
+      newName
     } = instruction;
 
     try {
+      let applied = true;
+      let skipped: string | undefined;
+
       switch (action) {
-        case ModifierAction.CREATE_FILE:
-          if (!content) throw new Error('Content is required for CREATE_FILE action');
-          this.createFile(filePath, content);
+        case ModifierAction.CREATE_FILE: {
+          const created = await this.createFile(workspace, instruction, context);
+          applied = created.applied;
+          skipped = created.skipped;
+          result.overwritten = created.overwritten || undefined;
           break;
+        }
 
         case ModifierAction.DELETE_FILE:
-          this.deleteFile(filePath);
+          applied = this.deleteFile(workspace, filePath);
+          break;
+
+        case ModifierAction.RENAME_FILE:
+          if (!newName) throw new Error('NewName is required for RENAME_FILE action');
+          applied = this.renameFile(workspace, filePath, newName);
+          break;
+
+        case ModifierAction.MOVE_FILE:
+          if (!destination) throw new Error('Destination is required for MOVE_FILE action');
+          applied = this.moveFile(workspace, filePath, destination);
+          break;
+
+        case ModifierAction.COPY_FILE:
+          if (!source) throw new Error('Source is required for COPY_FILE action');
+          applied = this.copyFile(workspace, source, filePath);
+          break;
+
+        case ModifierAction.CREATE_DIRECTORY:
+          applied = this.createDirectory(workspace, filePath);
+          break;
+
+        case ModifierAction.DELETE_DIRECTORY:
+          applied = this.deleteDirectory(workspace, filePath);
           break;
 
         case ModifierAction.INSERT_IMPORT:
           if (!content) throw new Error('Content is required for INSERT_IMPORT action');
-          this.insertImport(filePath, content);
+          applied = this.insertImport(workspace, filePath, content);
+          break;
+
+        case ModifierAction.REMOVE_IMPORT:
+          if (!content) throw new Error('Content is required for REMOVE_IMPORT action');
+          applied = this.removeImport(workspace, filePath, content);
           break;
 
         case ModifierAction.INSERT_AFTER:
           if (!pattern || !content) throw new Error('Pattern and content are required for INSERT_AFTER action');
-          this.insertAfter(filePath, pattern, content);
+          applied = this.insertAfter(workspace, filePath, pattern, content, instruction);
           break;
 
         case ModifierAction.INSERT_BEFORE:
           if (!pattern || !content) throw new Error('Pattern and content are required for INSERT_BEFORE action');
-          this.insertBefore(filePath, pattern, content);
+          applied = this.insertBefore(workspace, filePath, pattern, content, instruction);
           break;
 
         case ModifierAction.REPLACE_CONTENT:
           if (!pattern || replacement === undefined) throw new Error('Pattern and replacement are required for REPLACE_CONTENT action');
-          this.replaceContent(filePath, pattern, replacement);
+          applied = this.replaceContent(workspace, filePath, pattern, replacement, instruction);
           break;
 
         case ModifierAction.APPEND_TO_FILE:
           if (!content) throw new Error('Content is required for APPEND_TO_FILE action');
-          this.appendToFile(filePath, content);
+          applied = this.appendToFile(workspace, filePath, content);
+          break;
+
+        case ModifierAction.REMOVE_LINES:
+          if (!pattern) throw new Error('Pattern is required for REMOVE_LINES action');
+          applied = this.removeLines(workspace, filePath, pattern, instruction, region);
+          break;
+
+        case ModifierAction.REPLACE_REGION:
+          if (!region || content === undefined) throw new Error('Region and content are required for REPLACE_REGION action');
+          applied = this.applyRegionEdit(workspace, filePath, text => RegionResource.replace(text, region, content));
+          break;
+
+        case ModifierAction.APPEND_TO_REGION:
+          if (!region || !content) throw new Error('Region and content are required for APPEND_TO_REGION action');
+          applied = this.applyRegionEdit(workspace, filePath, text => RegionResource.append(text, region, content));
+          break;
+
+        case ModifierAction.REMOVE_REGION:
+          if (!region) throw new Error('Region is required for REMOVE_REGION action');
+          applied = this.applyRegionEdit(workspace, filePath, text => RegionResource.remove(text, region));
           break;
 
         case ModifierAction.INSERT_PROP:
           if (!componentName || !propName) throw new Error('ComponentName and propName are required for INSERT_PROP action');
-          this.insertProp(filePath, componentName, propName, propValue);
+          applied = this.insertProp(workspace, filePath, { componentName, propName, propValue, propType, occurrence });
+          break;
+
+        case ModifierAction.UPDATE_PROP:
+          if (!componentName || !propName) throw new Error('ComponentName and propName are required for UPDATE_PROP action');
+          applied = this.updateProp(workspace, filePath, { componentName, propName, propValue, propType, occurrence });
+          break;
+
+        case ModifierAction.REMOVE_PROP:
+          if (!componentName || !propName) throw new Error('ComponentName and propName are required for REMOVE_PROP action');
+          applied = this.removeProp(workspace, filePath, { componentName, propName, occurrence });
+          break;
+
+        case ModifierAction.MERGE_JSON:
+          if (value === undefined) throw new Error('Value is required for MERGE_JSON action');
+          applied = this.mergeJson(workspace, filePath, value);
+          break;
+
+        case ModifierAction.SET_JSON_PATH:
+          if (!jsonPath || value === undefined) throw new Error('JsonPath and value are required for SET_JSON_PATH action');
+          applied = this.setJsonPath(workspace, filePath, jsonPath, value);
+          break;
+
+        case ModifierAction.REMOVE_JSON_PATH:
+          if (!jsonPath) throw new Error('JsonPath is required for REMOVE_JSON_PATH action');
+          applied = this.removeJsonPath(workspace, filePath, jsonPath);
           break;
 
-        default:
-          throw new Error(`Unknown action: ${action}`);
+        default: {
+          const handler = context.plugins?.actions.get(action) || this.customActions.get(action);
+          if (!handler) throw new Error(`Unknown action: ${action}`);
+          applied = (await handler(instruction, { workspace, context })) !== false;
+          break;
+        }
       }
 
+      result.status = skipped ? 'skipped' : applied ? 'executed' : 'already-applied';
+      result.reason = skipped;
+      result.changes = workspace.takeChanges();
+
       if (verbose) {
-        Logger.item('Status: COMPLETED', 'success');
+        if (skipped) {
+          Logger.item(`Status: SKIPPED - ${skipped}`, 'warning');
+        } else {
+          Logger.item(applied ? 'Status: COMPLETED' : 'Status: ALREADY APPLIED', applied ? 'success' : 'dim');
+        }
         
         const hash = await this.saveInstructionLog(
           instruction,
           context,
           instructionIndex,
-          'success',
+          skipped ? 'skipped' : applied ? 'success' : 'already-applied',
           undefined,
           evaluation.results
         );
@@ -571,9 +1731,13 @@ export class ModifierResource {
         Logger.item(`Log Hash: ${hash}`, 'dim');
       }
 
-      return true;
+      return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'unknown error';
+
+      result.status = 'failed';
+      result.error = errorMessage;
+      result.changes = workspace.takeChanges();
       
       if (verbose) {
         Logger.item(`Status: FAILED - ${errorMessage}`, 'error');
@@ -590,16 +1754,19 @@ export class ModifierResource {
         Logger.item(`Log Hash: ${hash}`, 'error');
       }
       
-      throw error;
+      return result;
     }
   }
 
   public static async processInstructions(
     instructions: ModifierInstruction[],
     context: ModifierContext
-  ): Promise<{ executed: number; skipped: number }> {
+  ): Promise<InstructionsResult> {
     let executed = 0;
+    let alreadyApplied = 0;
     let skipped = 0;
+    let noMatch = 0;
+    const results: InstructionResult[] = [];
 
     const verbose = context.verbose || false;
 
@@ -608,21 +1775,56 @@ export class ModifierResource {
     }
 
     for (let i = 0; i < instructions.length; i++) {
-      const instruction = instructions[i];
-      try {
-        if (await this.processInstruction(instruction, context, i)) {
+      const instructionResults = await this.applyInstruction(instructions[i], context, i);
+      results.push(...instructionResults);
+
+      const failure = instructionResults.find(result => result.status === 'failed');
+
+      if (failure) {
+        if (verbose) {
+          Logger.error(`Instruction #${i + 1} failed: ${failure.error}`);
+        }
+
+        this.rollback(results, context);
+        return { executed: 0, alreadyApplied: 0, skipped: 0, noMatch: 0, results, rolledBack: true, failure };
+      }
+
+      for (const result of instructionResults) {
+        if (result.status === 'executed') {
           executed++;
+        } else if (result.status === 'already-applied') {
+          alreadyApplied++;
+        } else if (result.status === 'no-match') {
+          noMatch++;
         } else {
           skipped++;
         }
-      } catch (error) {
-        skipped++;
-        if (verbose) {
-          Logger.error(`Instruction #${i + 1} failed: ${error instanceof Error ? error.message : 'unknown error'}`);
-        }
       }
     }
 
-    return { executed, skipped };
+    return { executed, alreadyApplied, skipped, noMatch, results, rolledBack: false };
+  }
+
+  public static stripRegionMarkers(workspace: Workspace, root: string, exclude: string[] = []): FileChange[] {
+    workspace.takeChanges();
+
+    const files = GlobResource.filter(workspace.listFiles(root), join(root, '**'), exclude);
+
+    for (const file of files.filter(file => FileResource.isTextFile(file))) {
+      this.applyRegionEdit(workspace, file, content => RegionResource.stripMarkers(content));
+    }
+
+    return workspace.takeChanges();
+  }
+
+  private static rollback(results: InstructionResult[], context: ModifierContext): void {
+    const workspace = this.getWorkspace(context);
+    const changes = results.flatMap(result => result.changes);
+
+    workspace.restore(changes);
+
+    if (context.verbose) {
+      Logger.item(`Rolled back ${changes.length} file change(s)`, 'warning');
+    }
   }
 }
\ No newline at end of file
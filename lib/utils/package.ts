@@ -0,0 +1,187 @@
+import { spawn } from 'child_process';
+
+import { FileResource } from './file.js';
+import { PathResource } from './path.js';
+import { JsonResource } from './json.js';
+import { ConfigResource } from './config.js';
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+export type PackageSection = 'dependencies' | 'devDependencies' | 'scripts';
+
+export interface PackageContribution {
+  source: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+}
+
+export interface PackageEntry {
+  section: PackageSection;
+  name: string;
+  value: string;
+  source: string;
+}
+
+export interface PackageConflict {
+  section: PackageSection;
+  name: string;
+  current: string;
+  requested: string;
+  source: string;
+  owner?: string;
+}
+
+export interface PackageMergeResult {
+  content: string;
+  added: PackageEntry[];
+  conflicts: PackageConflict[];
+}
+
+export interface PackageManagerDetection {
+  manager: PackageManager;
+  reason: string;
+}
+
+export class PackageResource {
+  public static readonly PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+  public static readonly SECTIONS: PackageSection[] = ['dependencies', 'devDependencies', 'scripts'];
+
+  private static readonly DEPENDENCY_SECTIONS: PackageSection[] = ['dependencies', 'devDependencies'];
+
+  private static readonly LOCKFILES: Array<[string, PackageManager]> = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+    ['package-lock.json', 'npm'],
+    ['npm-shrinkwrap.json', 'npm']
+  ];
+
+  public static isPackageManager(value: unknown): value is PackageManager {
+    return typeof value === 'string' && this.PACKAGE_MANAGERS.includes(value as PackageManager);
+  }
+
+  public static hasContributions(contribution: PackageContribution): boolean {
+    return this.SECTIONS.some(section => Object.keys(contribution[section] || {}).length > 0);
+  }
+
+  public static merge(content: string, contributions: PackageContribution[]): PackageMergeResult {
+    const added: PackageEntry[] = [];
+    const conflicts: PackageConflict[] = [];
+    const owners = new Map<string, string>();
+    let result = content;
+
+    for (const contribution of contributions) {
+      for (const section of this.SECTIONS) {
+        for (const [name, requested] of Object.entries(contribution[section] || {})) {
+          const current = this.findCurrent(result, section, name);
+
+          if (!current) {
+            result = JsonResource.set(result, this.getPath(section, name), requested);
+            owners.set(this.getPath(section, name), contribution.source);
+            added.push({ section, name, value: requested, source: contribution.source });
+            continue;
+          }
+
+          if (current.value !== requested) {
+            conflicts.push({
+              section: current.section,
+              name,
+              current: current.value,
+              requested,
+              source: contribution.source,
+              owner: owners.get(this.getPath(current.section, name))
+            });
+          }
+        }
+      }
+    }
+
+    return { content: result, added, conflicts };
+  }
+
+  public static detectPackageManager(projectRoot: string): PackageManagerDetection {
+    const declared = this.readDeclaredManager(projectRoot);
+
+    if (declared) {
+      return { manager: declared, reason: 'packageManager field in package.json' };
+    }
+
+    for (const [lockfile, manager] of this.LOCKFILES) {
+      if (FileResource.exists(PathResource.join(projectRoot, lockfile))) {
+        return { manager, reason: `found ${lockfile}` };
+      }
+    }
+
+    const configured = ConfigResource.get('packageManager');
+
+    if (this.isPackageManager(configured)) {
+      return { manager: configured, reason: `packageManager in ${ConfigResource.getConfigPath()}` };
+    }
+
+    const userAgent = (process.env.npm_config_user_agent || '').split('/')[0];
+
+    if (this.isPackageManager(userAgent)) {
+      return { manager: userAgent, reason: `zeck was run with ${userAgent}` };
+    }
+
+    return { manager: 'npm', reason: 'default' };
+  }
+
+  public static install(projectRoot: string, manager: PackageManager, silent: boolean = false): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(manager, ['install'], {
+        cwd: projectRoot,
+        stdio: silent ? ['ignore', 'ignore', 'pipe'] : 'inherit',
+        shell: process.platform === 'win32'
+      });
+
+      let stderr = '';
+      child.stderr?.on('data', chunk => {
+        stderr = (stderr + chunk.toString()).slice(-2000);
+      });
+
+      child.on('error', error => reject(new Error(`Failed to run ${manager} install: ${error.message}`)));
+      child.on('close', code => code === 0
+        ? resolve()
+        : reject(new Error(`${manager} install exited with code ${code}${stderr ? `: ${stderr.trim()}` : ''}`))
+      );
+    });
+  }
+
+  private static findCurrent(
+    content: string,
+    section: PackageSection,
+    name: string
+  ): { section: PackageSection; value: string } | null {
+    const sections = section === 'scripts' ? [section] : this.DEPENDENCY_SECTIONS;
+
+    for (const candidate of sections) {
+      const value = JsonResource.get(content, this.getPath(candidate, name));
+      if (value !== undefined) {
+        return { section: candidate, value: String(value) };
+      }
+    }
+
+    return null;
+  }
+
+  private static readDeclaredManager(projectRoot: string): PackageManager | null {
+    const packagePath = PathResource.join(projectRoot, 'package.json');
+
+    if (!FileResource.exists(packagePath)) return null;
+
+    try {
+      const declared = JsonResource.get(FileResource.read(packagePath), 'packageManager');
+      const manager = typeof declared === 'string' ? declared.split('@')[0] : '';
+      return this.isPackageManager(manager) ? manager : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static getPath(section: PackageSection, name: string): string {
+    return `${section}["${name}"]`;
+  }
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { resolve, relative, normalize, join, dirname } from 'path';
+import { resolve, relative, normalize, join, dirname, basename, isAbsolute, sep } from 'path';
+import { existsSync, realpathSync } from 'fs';
 import { fileURLToPath } from 'url';
 
 export class PathResource {
@@ -22,6 +23,22 @@ export class PathResource {
     return resolve(path) === normalize(path);
   }
 
+  public static isInside(root: string, target: string): boolean {
+    const path = relative(this.realpath(root), this.realpath(target));
+    return path !== '..' && !path.startsWith(`..${sep}`) && !isAbsolute(path);
+  }
+
+  public static realpath(path: string): string {
+    const resolved = resolve(path);
+
+    if (existsSync(resolved)) {
+      return realpathSync(resolved);
+    }
+
+    const parent = dirname(resolved);
+    return parent === resolved ? resolved : join(this.realpath(parent), basename(resolved));
+  }
+
   public static getPackageRoot(importMetaUrl: string): string {
     const __filename = fileURLToPath(importMetaUrl);
     const __dirname = dirname(__filename);
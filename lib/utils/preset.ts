@@ -0,0 +1,88 @@
+import { FileResource } from './file.js';
+import { PathResource } from './path.js';
+import { CatalogResource, TemplatesCatalog } from './catalog.js';
+
+export interface Preset {
+  category: string;
+  template: string;
+  modules?: string[];
+  destination?: string;
+  source?: string;
+  ref?: string;
+  variables?: Record<string, string>;
+}
+
+export class PresetResource {
+  private static readonly SCHEMA_URL = 'https://unpkg.com/zeck-cli/schemas/preset.schema.json';
+
+  public static load(filePath: string): Preset {
+    const presetPath = PathResource.resolve(filePath);
+
+    if (!FileResource.exists(presetPath)) {
+      throw new Error(`Preset file not found: ${filePath}`);
+    }
+
+    let data: unknown;
+
+    try {
+      data = FileResource.readJson(presetPath);
+    } catch {
+      throw new Error(`Invalid preset file '${filePath}': not valid JSON`);
+    }
+
+    const problem = this.findProblem(data);
+
+    if (problem) {
+      throw new Error(`Invalid preset file '${filePath}': ${problem}`);
+    }
+
+    return data as Preset;
+  }
+
+  public static save(filePath: string, preset: Preset): void {
+    FileResource.write(PathResource.resolve(filePath), JSON.stringify({ $schema: this.SCHEMA_URL, ...preset }, null, 2));
+  }
+
+  public static validate(catalog: TemplatesCatalog, preset: Preset, filePath: string): void {
+    try {
+      const template = CatalogResource.findTemplate(CatalogResource.findCategory(catalog, preset.category), preset.template);
+      CatalogResource.findModules(template, preset.modules || []);
+    } catch (error) {
+      throw new Error(`Preset '${filePath}' no longer matches the catalog: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+
+  private static findProblem(data: unknown): string | null {
+    if (!this.isObject(data)) {
+      return 'must be a JSON object';
+    }
+
+    for (const field of ['category', 'template']) {
+      if (typeof data[field] !== 'string' || data[field] === '') {
+        return `'${field}' must be a non-empty string`;
+      }
+    }
+
+    if (data.modules !== undefined
+      && (!Array.isArray(data.modules) || !data.modules.every(name => typeof name === 'string'))) {
+      return `'modules' must be an array of module names`;
+    }
+
+    for (const field of ['destination', 'source', 'ref']) {
+      if (data[field] !== undefined && typeof data[field] !== 'string') {
+        return `'${field}' must be a string`;
+      }
+    }
+
+    if (data.variables !== undefined
+      && (!this.isObject(data.variables) || !Object.values(data.variables).every(value => typeof value === 'string'))) {
+      return `'variables' must be an object of strings`;
+    }
+
+    return null;
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
\ No newline at end of file
@@ -1,10 +1,13 @@
-import { readdir, copyFile, mkdir } from 'fs/promises';
+import { readdir, copyFile, mkdir, rm } from 'fs/promises';
 
 import { CacheResource } from './cache.js';
 import { FileResource } from './file.js';
 import { PathResource } from './path.js';
+import { TemplateSource } from './catalog.js';
 
 export class ProjectResource {
+  private static readonly COPY_EXCLUDE = ['.git', 'node_modules'];
+
   public static resolveDestination(targetPath: string | undefined, defaultName: string): string {
     const cwd = process.cwd();
 
@@ -24,42 +27,77 @@ export class ProjectResource {
   }
 
   public static async createFromTemplate(
-    repo: string,
+    source: TemplateSource,
     subdir: string,
-    destination: string
-  ): Promise<void> {
-    const identifier = `temp-${Date.now()}`;
+    destination: string,
+    allowOutsideRoot: boolean = false,
+    offline: boolean = false
+  ): Promise<string | undefined> {
+    return this.withTemplateSource(source, subdir, async (sourcePath, commit) => {
+      await this.copyDirectory(sourcePath, destination, allowOutsideRoot ? null : sourcePath);
+      return commit;
+    }, offline);
+  }
 
-    try {
-      const sourcePath = await CacheResource.cloneRepository(repo, subdir, identifier);
+  public static async withTemplateSource<T>(
+    source: TemplateSource,
+    subdir: string,
+    handler: (sourcePath: string, commit?: string) => Promise<T>,
+    offline: boolean = false
+  ): Promise<T> {
+    if (source.local && !source.ref) {
+      const sourcePath = PathResource.join(source.repository, subdir);
+
+      if (!PathResource.isInside(source.repository, sourcePath)) {
+        throw new Error(`Template path '${subdir}' is outside the source directory`);
+      }
 
-      await this.copyDirectory(sourcePath, destination);
+      if (!FileResource.exists(sourcePath)) {
+        throw new Error(`Template path '${subdir}' not found in ${source.repository}`);
+      }
 
-      await CacheResource.clearTemp(identifier);
-    } catch (error) {
-      await CacheResource.clearTemp(identifier);
-      throw error;
+      return handler(sourcePath);
     }
+
+    const { path, commit } = await CacheResource.cloneRepository(source.repository, subdir, source.ref, offline);
+    return handler(path, commit);
   }
 
-  private static async copyDirectory(src: string, dest: string): Promise<void> {
+  private static async copyDirectory(src: string, dest: string, root: string | null): Promise<void> {
     
     await mkdir(dest, { recursive: true });
     
     const entries = await readdir(src, { withFileTypes: true });
 
     for (const entry of entries) {
+      if (this.COPY_EXCLUDE.includes(entry.name)) continue;
+
       const srcPath = PathResource.join(src, entry.name);
       const destPath = PathResource.join(dest, entry.name);
 
+      if (root && entry.isSymbolicLink() && !PathResource.isInside(root, srcPath)) {
+        throw new Error(`Template file '${entry.name}' links outside the template`);
+      }
+
       if (entry.isDirectory()) {
-        await this.copyDirectory(srcPath, destPath);
+        await this.copyDirectory(srcPath, destPath, root);
       } else {
         await copyFile(srcPath, destPath);
       }
     }
   }
 
+  public static async removeModulesFolder(destination: string): Promise<void> {
+    try {
+      const modulesPath = PathResource.join(destination, '.modules');
+
+      if (FileResource.exists(modulesPath)) {
+        await rm(modulesPath, { recursive: true, force: true });
+      }
+    } catch (error) {
+    }
+  }
+
   public static async validateDestination(destination: string): Promise<void> {
     if (FileResource.exists(destination)) {
       const files = await readdir(destination);
@@ -21,6 +21,10 @@ export class PromptResource {
   private static readonly DEFAULT_VALIDATE = (value: any): boolean | string => 
     value ? true : 'This field is required';
 
+  public static isInteractive(): boolean {
+    return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+  }
+
   public static async ask(config: PromptConfig): Promise<any> {
     const prompt = this.buildPrompt(config);
     const answer = await inquirer.prompt([prompt]);
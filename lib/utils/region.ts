@@ -0,0 +1,155 @@
+export interface Region {
+  name: string;
+  start: number;
+  end: number;
+  indent: string;
+}
+
+export interface RegionEditResult {
+  content: string;
+  changed: boolean;
+}
+
+export class RegionResource {
+  private static readonly START_MARKER = /zeck:region\s+([\w./-]+)/;
+  private static readonly END_MARKER = /zeck:endregion\b/;
+
+  public static hasMarkers(content: string): boolean {
+    return content.includes('zeck:region') || content.includes('zeck:endregion');
+  }
+
+  public static find(content: string, name: string): Region | null {
+    return this.parse(content.split('\n')).find(region => region.name === name) || null;
+  }
+
+  public static replace(content: string, name: string, body: string): RegionEditResult {
+    const lines = content.split('\n');
+    const region = this.require(lines, name);
+    const bodyLines = this.indent(body, region.indent);
+    const current = lines.slice(region.start + 1, region.end);
+
+    if (current.join('\n') === bodyLines.join('\n')) {
+      return { content, changed: false };
+    }
+
+    lines.splice(region.start + 1, current.length, ...bodyLines);
+    return { content: lines.join('\n'), changed: true };
+  }
+
+  public static append(content: string, name: string, body: string): RegionEditResult {
+    const lines = content.split('\n');
+    const region = this.require(lines, name);
+    const bodyLines = this.indent(body, region.indent);
+    const current = lines.slice(region.start + 1, region.end);
+
+    if (this.containsBlock(current, bodyLines)) {
+      return { content, changed: false };
+    }
+
+    lines.splice(region.end, 0, ...bodyLines);
+    return { content: lines.join('\n'), changed: true };
+  }
+
+  public static remove(content: string, name: string): RegionEditResult {
+    const lines = content.split('\n');
+    const region = this.parse(lines).find(entry => entry.name === name);
+
+    if (!region) {
+      return { content, changed: false };
+    }
+
+    lines.splice(region.start, region.end - region.start + 1);
+    return { content: lines.join('\n'), changed: true };
+  }
+
+  public static removeLines(content: string, matches: (line: string) => boolean, name?: string): RegionEditResult {
+    const lines = content.split('\n');
+    const region = name ? this.require(lines, name) : null;
+    const start = region ? region.start + 1 : 0;
+    const end = region ? region.end : lines.length;
+
+    const kept = lines.filter((line, index) => index < start || index >= end || !matches(line));
+
+    return kept.length === lines.length
+      ? { content, changed: false }
+      : { content: kept.join('\n'), changed: true };
+  }
+
+  public static stripMarkers(content: string): RegionEditResult {
+    if (!this.hasMarkers(content)) {
+      return { content, changed: false };
+    }
+
+    const lines = content.split('\n');
+    const kept = lines.filter(line => !this.START_MARKER.test(line) && !this.END_MARKER.test(line));
+
+    return kept.length === lines.length
+      ? { content, changed: false }
+      : { content: kept.join('\n'), changed: true };
+  }
+
+  private static parse(lines: string[]): Region[] {
+    const regions: Region[] = [];
+    const open: Region[] = [];
+
+    lines.forEach((line, index) => {
+      const start = line.match(this.START_MARKER);
+
+      if (start) {
+        if (regions.some(region => region.name === start[1]) || open.some(region => region.name === start[1])) {
+          throw new Error(`Region '${start[1]}' is defined more than once`);
+        }
+
+        open.push({ name: start[1], start: index, end: -1, indent: line.match(/^[ \t]*/)?.[0] || '' });
+        return;
+      }
+
+      if (this.END_MARKER.test(line)) {
+        const region = open.pop();
+
+        if (!region) {
+          throw new Error(`Unexpected 'zeck:endregion' on line ${index + 1}`);
+        }
+
+        region.end = index;
+        regions.push(region);
+      }
+    });
+
+    if (open.length > 0) {
+      throw new Error(`Unclosed region '${open[open.length - 1].name}'`);
+    }
+
+    return regions;
+  }
+
+  private static require(lines: string[], name: string): Region {
+    const region = this.parse(lines).find(entry => entry.name === name);
+
+    if (!region) {
+      throw new Error(`Region '${name}' not found`);
+    }
+
+    return region;
+  }
+
+  private static indent(body: string, indent: string): string[] {
+    const lines = body.split('\n');
+
+    if (!indent || /^\s/.test(lines[0])) {
+      return lines;
+    }
+
+    return lines.map(line => line.trim() === '' ? line : `${indent}${line}`);
+  }
+
+  private static containsBlock(lines: string[], block: string[]): boolean {
+    for (let i = 0; i + block.length <= lines.length; i++) {
+      if (block.every((line, offset) => lines[i + offset] === line)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { ConfigResource, RegistryConfig } from './config.js';
+import { CatalogResource, TemplateSource, TemplatesCatalog, MergedCatalog } from './catalog.js';
+
+export interface Registry extends RegistryConfig {
+  builtIn: boolean;
+}
+
+export interface RegistryFailure {
+  registry: string;
+  error: string;
+}
+
+export interface RegistryCatalog extends MergedCatalog {
+  failures: RegistryFailure[];
+}
+
+export class RegistryResource {
+  public static readonly DEFAULT_NAME = 'default';
+
+  private static readonly NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+  public static list(): Registry[] {
+    const configured = (ConfigResource.get('registries') || []).map(registry => ({ ...registry, builtIn: false }));
+
+    return [
+      ...configured,
+      {
+        name: this.DEFAULT_NAME,
+        location: CatalogResource.DEFAULT_SOURCE.catalogUrl || CatalogResource.DEFAULT_SOURCE.repository,
+        builtIn: true
+      }
+    ];
+  }
+
+  public static hasCustomRegistries(): boolean {
+    return (ConfigResource.get('registries') || []).length > 0;
+  }
+
+  public static add(name: string, location: string): Registry {
+    if (!this.NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid registry name '${name}', use letters, numbers, '-' and '_'`);
+    }
+
+    const registries = ConfigResource.get('registries') || [];
+
+    if (name === this.DEFAULT_NAME || registries.some(registry => registry.name === name)) {
+      throw new Error(`Registry '${name}' already exists`);
+    }
+
+    const source = CatalogResource.resolveSource(location);
+    const entry = { name, location: source.local ? source.repository : location };
+
+    ConfigResource.set('registries', [...registries, entry]);
+    return { ...entry, builtIn: false };
+  }
+
+  public static remove(name: string): void {
+    if (name === this.DEFAULT_NAME) {
+      throw new Error(`The ${this.DEFAULT_NAME} registry cannot be removed`);
+    }
+
+    const registries = ConfigResource.get('registries') || [];
+
+    if (!registries.some(registry => registry.name === name)) {
+      throw new Error(`Unknown registry '${name}', available: ${registries.map(registry => registry.name).join(', ') || '(none)'}`);
+    }
+
+    const remaining = registries.filter(registry => registry.name !== name);
+
+    if (remaining.length > 0) {
+      ConfigResource.set('registries', remaining);
+    } else {
+      ConfigResource.unset('registries');
+    }
+  }
+
+  public static async load(offline: boolean = false): Promise<RegistryCatalog> {
+    const catalogs: Array<{ source: TemplateSource; catalog: TemplatesCatalog }> = [];
+    const failures: RegistryFailure[] = [];
+
+    for (const registry of this.list()) {
+      try {
+        const source = this.getSource(registry);
+        catalogs.push({ source, catalog: await CatalogResource.load(source, offline) });
+      } catch (error) {
+        failures.push({ registry: registry.name, error: error instanceof Error ? error.message : 'unknown error' });
+      }
+    }
+
+    if (catalogs.length === 0) {
+      throw new Error(`Failed to load any registry: ${failures.map(failure => `${failure.registry} (${failure.error})`).join(', ')}`);
+    }
+
+    return { ...CatalogResource.merge(catalogs), failures };
+  }
+
+  private static getSource(registry: Registry): TemplateSource {
+    if (registry.builtIn) {
+      return CatalogResource.DEFAULT_SOURCE;
+    }
+
+    return { ...CatalogResource.resolveSource(registry.location), name: registry.name };
+  }
+}
\ No newline at end of file
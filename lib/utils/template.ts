@@ -0,0 +1,210 @@
+export interface TemplateData {
+  variables: Record<string, string | undefined>;
+  modules: string[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; raw: string; expression: string }
+  | { type: 'block'; keyword: 'if' | 'unless'; expression: string; body: TemplateNode[]; alternate: TemplateNode[] };
+
+interface TemplateTag {
+  raw: string;
+  prefix: string;
+  expression: string;
+  start: number;
+  end: number;
+}
+
+export class TemplateResource {
+  private static readonly TAG = /\\\{\{|\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+  private static readonly IDENTIFIER = /^[A-Za-z_][\w]*$/;
+  private static readonly MODULE_TEST = /^module\s+(["'])(.+)\1$/;
+
+  private static readonly HELPERS: Record<string, (value: string) => string> = {
+    kebab: value => TemplateResource.words(value).join('-'),
+    snake: value => TemplateResource.words(value).join('_'),
+    camel: value => TemplateResource.words(value)
+      .map((word, index) => index === 0 ? word : TemplateResource.capitalize(word))
+      .join(''),
+    pascal: value => TemplateResource.words(value).map(word => TemplateResource.capitalize(word)).join(''),
+    title: value => TemplateResource.words(value).map(word => TemplateResource.capitalize(word)).join(' '),
+    constant: value => TemplateResource.words(value).join('_').toUpperCase(),
+    upper: value => value.toUpperCase(),
+    lower: value => value.toLowerCase()
+  };
+
+  public static hasTags(text: string): boolean {
+    return text.includes('{{');
+  }
+
+  public static render(text: string, data: TemplateData): string {
+    if (!this.hasTags(text)) return text;
+
+    const tags = this.tokenize(text);
+    const { nodes, index } = this.parse(text, tags, 0, 0);
+
+    if (index < tags.length) {
+      throw new Error(`Unexpected template tag '${tags[index].raw}'`);
+    }
+
+    return this.renderNodes(nodes, data);
+  }
+
+  private static tokenize(text: string): TemplateTag[] {
+    const tags: TemplateTag[] = [];
+
+    for (const match of text.matchAll(this.TAG)) {
+      const start = match.index || 0;
+      tags.push({
+        raw: match[0],
+        prefix: match[1] ?? '',
+        expression: (match[2] ?? '').trim(),
+        start,
+        end: start + match[0].length
+      });
+    }
+
+    return tags;
+  }
+
+  private static parse(
+    text: string,
+    tags: TemplateTag[],
+    tagIndex: number,
+    position: number,
+    closing?: 'if' | 'unless'
+  ): { nodes: TemplateNode[]; alternate?: TemplateNode[]; index: number; position: number } {
+    const nodes: TemplateNode[] = [];
+    let alternate: TemplateNode[] | undefined;
+    let current = nodes;
+    let index = tagIndex;
+    let cursor = position;
+
+    while (index < tags.length) {
+      const tag = tags[index];
+
+      if (tag.start > cursor) {
+        current.push({ type: 'text', value: text.slice(cursor, tag.start) });
+      }
+      cursor = tag.end;
+      index++;
+
+      if (tag.raw === '\\{{') {
+        current.push({ type: 'text', value: '{{' });
+        continue;
+      }
+
+      if (tag.prefix === '#') {
+        const [keyword, ...rest] = tag.expression.split(/\s+/);
+
+        if (keyword !== 'if' && keyword !== 'unless') {
+          throw new Error(`Unknown template block '${tag.raw}'`);
+        }
+
+        const block = this.parse(text, tags, index, cursor, keyword);
+        current.push({
+          type: 'block',
+          keyword,
+          expression: rest.join(' '),
+          body: block.nodes,
+          alternate: block.alternate || []
+        });
+        index = block.index;
+        cursor = block.position;
+        continue;
+      }
+
+      if (tag.prefix === '/') {
+        if (tag.expression !== closing) {
+          throw new Error(`Unexpected template tag '${tag.raw}'`);
+        }
+        return { nodes, alternate, index, position: cursor };
+      }
+
+      if (tag.expression === 'else' && closing) {
+        if (alternate) {
+          throw new Error(`Duplicate '{{else}}' in '{{#${closing}}}' block`);
+        }
+        alternate = [];
+        current = alternate;
+        continue;
+      }
+
+      current.push({ type: 'output', raw: tag.raw, expression: tag.expression });
+    }
+
+    if (closing) {
+      throw new Error(`Unclosed template block '{{#${closing}}}'`);
+    }
+
+    if (cursor < text.length) {
+      nodes.push({ type: 'text', value: text.slice(cursor) });
+    }
+
+    return { nodes, alternate, index, position: cursor };
+  }
+
+  private static renderNodes(nodes: TemplateNode[], data: TemplateData): string {
+    return nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+
+        case 'output':
+          return this.renderOutput(node.raw, node.expression, data);
+
+        case 'block': {
+          const truthy = this.evaluate(node.expression, data);
+          const passed = node.keyword === 'if' ? truthy : !truthy;
+          return this.renderNodes(passed ? node.body : node.alternate, data);
+        }
+      }
+    }).join('');
+  }
+
+  private static renderOutput(raw: string, expression: string, data: TemplateData): string {
+    const parts = expression.split(/\s+/);
+
+    if (parts.length === 1 && this.isKnownVariable(parts[0], data)) {
+      return data.variables[parts[0]] ?? '';
+    }
+
+    if (parts.length === 2 && this.HELPERS[parts[0]] && this.isKnownVariable(parts[1], data)) {
+      return this.HELPERS[parts[0]](data.variables[parts[1]] ?? '');
+    }
+
+    return raw;
+  }
+
+  private static evaluate(expression: string, data: TemplateData): boolean {
+    const moduleMatch = expression.match(this.MODULE_TEST);
+
+    if (moduleMatch) {
+      return data.modules.includes(moduleMatch[2]);
+    }
+
+    if (this.IDENTIFIER.test(expression)) {
+      const value = data.variables[expression];
+      return value !== undefined && value !== '' && value !== 'false';
+    }
+
+    throw new Error(`Invalid template condition '${expression}'`);
+  }
+
+  private static isKnownVariable(name: string, data: TemplateData): boolean {
+    return this.IDENTIFIER.test(name) && Object.prototype.hasOwnProperty.call(data.variables, name);
+  }
+
+  private static words(value: string): string[] {
+    return value
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .split(/[^A-Za-z\d]+/)
+      .filter(Boolean)
+      .map(word => word.toLowerCase());
+  }
+
+  private static capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }
+}
\ No newline at end of file
@@ -2,6 +2,7 @@ import axios from 'axios';
 import { FileResource } from './file.js';
 import { PathResource } from './path.js';
 import { Logger } from './logger.js';
+import { CacheResource } from './cache.js';
 
 interface NpmPackageInfo {
   'dist-tags': {
@@ -58,8 +59,7 @@ export class UpdaterResource {
   }
 
   private static getCacheDir(): string {
-    const homeDir = process.env.HOME || process.env.USERPROFILE || process.cwd();
-    return PathResource.join(homeDir, '.zeck-cache');
+    return CacheResource.getCachePath();
   }
 
   private static updateLastCheck(): void {
@@ -0,0 +1,291 @@
+import {
+  readFileSync,
+  writeFileSync,
+  unlinkSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  rmdirSync,
+  statSync
+} from 'fs';
+import { dirname, join, relative, sep } from 'path';
+
+export type FileContent = string | Buffer;
+
+export interface FileChange {
+  path: string;
+  before: FileContent | null;
+  after: FileContent | null;
+  directory?: boolean;
+}
+
+interface JournalEntry {
+  directory: boolean;
+  before: FileContent | null;
+}
+
+export class Workspace {
+  private static readonly DIRECTORY_MARKER = '';
+
+  private readonly overlay = new Map<string, FileContent | null>();
+  private readonly directories = new Map<string, boolean>();
+  private readonly journal = new Map<string, JournalEntry>();
+
+  constructor(private readonly inMemory: boolean = false) {}
+
+  public isInMemory(): boolean {
+    return this.inMemory;
+  }
+
+  public exists(filePath: string): boolean {
+    return this.isFile(filePath) || this.isDirectory(filePath);
+  }
+
+  public isFile(filePath: string): boolean {
+    if (this.overlay.has(filePath)) {
+      return this.overlay.get(filePath) !== null;
+    }
+
+    if (this.hasRemovedAncestor(filePath)) return false;
+
+    return existsSync(filePath) && statSync(filePath).isFile();
+  }
+
+  public isDirectory(dirPath: string): boolean {
+    if (this.directories.has(dirPath)) {
+      return this.directories.get(dirPath) === true;
+    }
+
+    if (this.hasRemovedAncestor(dirPath)) return false;
+
+    return existsSync(dirPath) && statSync(dirPath).isDirectory();
+  }
+
+  public read(filePath: string): string {
+    const content = this.readRaw(filePath);
+    return typeof content === 'string' ? content : content.toString('utf8');
+  }
+
+  public readBuffer(filePath: string): Buffer {
+    const content = this.readRaw(filePath);
+    return typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+  }
+
+  public write(filePath: string, content: FileContent): void {
+    this.ensureDirectory(dirname(filePath));
+    this.track(filePath, false);
+
+    if (this.inMemory) {
+      this.overlay.set(filePath, content);
+      return;
+    }
+
+    writeFileSync(filePath, content);
+  }
+
+  public remove(filePath: string): void {
+    if (!this.isFile(filePath)) return;
+
+    this.track(filePath, false);
+
+    if (this.inMemory) {
+      this.overlay.set(filePath, null);
+      return;
+    }
+
+    unlinkSync(filePath);
+  }
+
+  public createDirectory(dirPath: string): void {
+    this.ensureDirectory(dirPath);
+  }
+
+  public removeDirectory(dirPath: string): void {
+    if (!this.isDirectory(dirPath)) return;
+
+    this.listFiles(dirPath).forEach(file => this.remove(file));
+
+    this.listDirectories(dirPath)
+      .sort((a, b) => b.length - a.length)
+      .forEach(dir => this.removeEmptyDirectory(dir));
+
+    this.removeEmptyDirectory(dirPath);
+  }
+
+  public copy(source: string, destination: string): void {
+    if (this.isDirectory(source)) {
+      this.createDirectory(destination);
+      this.listFiles(source).forEach(file => {
+        this.write(join(destination, relative(source, file)), this.readBuffer(file));
+      });
+      return;
+    }
+
+    this.write(destination, this.readBuffer(source));
+  }
+
+  public move(source: string, destination: string): void {
+    this.copy(source, destination);
+
+    if (this.isDirectory(source)) {
+      this.removeDirectory(source);
+    } else {
+      this.remove(source);
+    }
+  }
+
+  public listFiles(dirPath: string): string[] {
+    const files = new Set<string>();
+
+    if (!this.isDirectory(dirPath)) return [];
+
+    this.listDiskEntries(dirPath)
+      .filter(entry => !entry.directory)
+      .forEach(entry => files.add(entry.path));
+
+    for (const [path, content] of this.overlay) {
+      if (this.isInside(path, dirPath)) {
+        if (content === null) files.delete(path);
+        else files.add(path);
+      }
+    }
+
+    return Array.from(files).filter(file => this.isFile(file)).sort();
+  }
+
+  public takeChanges(): FileChange[] {
+    const changes: FileChange[] = [];
+
+    for (const [path, entry] of this.journal) {
+      if (entry.directory) {
+        const after = this.isDirectory(path) ? Workspace.DIRECTORY_MARKER : null;
+        if (entry.before !== after) {
+          changes.push({ path, before: entry.before, after, directory: true });
+        }
+        continue;
+      }
+
+      const after = this.isFile(path) ? this.readRaw(path) : null;
+      if (!this.sameContent(entry.before, after)) {
+        changes.push({ path, before: entry.before, after });
+      }
+    }
+
+    this.journal.clear();
+    return changes;
+  }
+
+  public restore(changes: FileChange[]): void {
+    for (const change of [...changes].reverse()) {
+      if (change.directory) {
+        if (change.before === null) this.removeEmptyDirectory(change.path);
+        else this.ensureDirectory(change.path);
+      } else if (change.before === null) {
+        this.remove(change.path);
+      } else {
+        this.write(change.path, change.before);
+      }
+    }
+
+    this.journal.clear();
+  }
+
+  private readRaw(filePath: string): FileContent {
+    if (this.overlay.has(filePath)) {
+      const content = this.overlay.get(filePath);
+      if (content === null || content === undefined) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      return content;
+    }
+
+    if (!this.isFile(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    return readFileSync(filePath);
+  }
+
+  private ensureDirectory(dirPath: string): void {
+    if (this.isDirectory(dirPath)) return;
+
+    this.ensureDirectory(dirname(dirPath));
+    this.track(dirPath, true);
+
+    if (this.inMemory) {
+      this.directories.set(dirPath, true);
+      return;
+    }
+
+    mkdirSync(dirPath);
+  }
+
+  private removeEmptyDirectory(dirPath: string): void {
+    if (!this.isDirectory(dirPath) || this.listFiles(dirPath).length > 0) return;
+    if (this.listDirectories(dirPath).length > 0) return;
+
+    this.track(dirPath, true);
+
+    if (this.inMemory) {
+      this.directories.set(dirPath, false);
+      return;
+    }
+
+    rmdirSync(dirPath);
+  }
+
+  private listDirectories(dirPath: string): string[] {
+    const dirs = new Set<string>();
+
+    this.listDiskEntries(dirPath)
+      .filter(entry => entry.directory)
+      .forEach(entry => dirs.add(entry.path));
+
+    for (const path of this.directories.keys()) {
+      if (this.isInside(path, dirPath)) dirs.add(path);
+    }
+
+    return Array.from(dirs).filter(dir => this.isDirectory(dir));
+  }
+
+  private listDiskEntries(dirPath: string): Array<{ path: string; directory: boolean }> {
+    if (!existsSync(dirPath) || !statSync(dirPath).isDirectory()) return [];
+
+    return readdirSync(dirPath, { withFileTypes: true }).flatMap(entry => {
+      const entryPath = join(dirPath, entry.name);
+      return entry.isDirectory()
+        ? [{ path: entryPath, directory: true }, ...this.listDiskEntries(entryPath)]
+        : [{ path: entryPath, directory: false }];
+    });
+  }
+
+  private hasRemovedAncestor(path: string): boolean {
+    let dir = dirname(path);
+
+    while (dir !== dirname(dir)) {
+      if (this.directories.get(dir) === false) return true;
+      if (this.directories.get(dir) === true) return false;
+      dir = dirname(dir);
+    }
+
+    return false;
+  }
+
+  private isInside(path: string, dirPath: string): boolean {
+    return path.startsWith(dirPath.endsWith(sep) ? dirPath : `${dirPath}${sep}`);
+  }
+
+  private sameContent(a: FileContent | null, b: FileContent | null): boolean {
+    if (a === null || b === null) return a === b;
+    return Buffer.from(a).equals(Buffer.from(b));
+  }
+
+  private track(path: string, directory: boolean): void {
+    if (this.journal.has(path)) return;
+
+    const before = directory
+      ? (this.isDirectory(path) ? Workspace.DIRECTORY_MARKER : null)
+      : (this.isFile(path) ? this.readRaw(path) : null);
+
+    this.journal.set(path, { directory, before });
+  }
+}
\ No newline at end of file